@@ -1,11 +1,44 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { CameraState, Photo } from './types';
+import { CameraState, FrameAspect, Photo, PhotoComment, PhotoLayer, PhotoThread, Participant } from './types';
 import { RetroSwitch } from './components/RetroSwitch';
 import Polaroid from './components/Polaroid';
-import { generateCaption } from './services/geminiService';
+import { generateCaptionOptions, CaptionConfig, CaptionStyle, CaptionPersona, CAPTION_PERSONAS, CAPTION_LANGUAGES, CAPTION_LENGTHS, DEFAULT_CAPTION_CONFIG, usesLocalCaptions, loadLocalCaptionConfig, saveLocalCaptionConfig, loadCaptionStyle, saveCaptionStyle } from './services/captionService';
 import { supabase } from './services/supabaseClient';
+import { mapPhotoRow, fetchPhotoPage, PhotoCursor, isNewerMove, movePhoto, fetchAllPhotos, savePhotoToRoom, saveBackNote, saveLayers, trashPhotos, restorePhotos, clearRoom, deletePhotoForever, fetchTrash, newShareToken, PHOTO_COLUMNS } from './services/photoService';
+import { joinRoom, createRoom, updateRoom, updateRoomCaptionConfig, kickMember, setRoomModerator, generateRoomId, readInviteFromUrl, clearInviteCodeFromUrl, clearPhotoFromUrl, buildPhotoLink, Room, RoomAccess, RoomChanges, RoomMember, RoomVisibility } from './services/roomService';
+import { migrateLegacyPhotos } from './services/mediaStorage';
+import { renderPolaroid, renderBoard, exportContactSheetPdf, canvasToBlob, downloadBlob } from './services/exportService';
+import { applyReaction, fetchReactions, setReaction } from './services/reactionService';
+import { commentWithReplies, countComments, deleteComment, fetchComments, mapCommentRow, postComment } from './services/commentService';
+import { saveLocalPhoto, updateLocalPhoto, removeLocalPhoto, loadLocalPhotos, countLocalPhotos, uploadLocalPhotos } from './services/localLibrary';
 import { AuthModal } from './components/AuthModal';
 import { CursorOverlay } from './components/CursorOverlay';
+import { TrashBin } from './components/TrashBin';
+import { CaptionSettings } from './components/CaptionSettings';
+import { RoomSettings } from './components/RoomSettings';
+import { PresenceRoster } from './components/PresenceRoster';
+import { PresenceToast, PresenceNotice } from './components/PresenceToast';
+import { fetchProfile, fetchDisplayNames, colorForUser, Profile } from './services/profileService';
+import { screenCapture, fetchPendingPhotos, countPendingPhotos, isRoomModerator, moderatePhoto } from './services/moderationService';
+import { toBoardPoint, homeView, clampView, zoomViewAt, panView, centerViewOn, visibleRegion, tilesInRegion, cardIntersects, BoardView, BoardTile, BOARD_WIDTH, BOARD_HEIGHT, CARD_WIDTH } from './services/boardCoords';
+import { BoardMinimap } from './components/BoardMinimap';
+import { Gallery } from './components/Gallery';
+import { PhotoSocial } from './components/PhotoThread';
+import { ModerationQueue } from './components/ModerationQueue';
+import { ClipTrimmer, ClipRange } from './components/ClipTrimmer';
+import { useIdle } from './hooks/useIdle';
+import { useAnnouncer } from './hooks/useAnnouncer';
+import { UndoToast } from './components/UndoToast';
+import { FilterDial } from './components/FilterDial';
+import { FilmPackPicker } from './components/FilmPackPicker';
+import { applyFilmStock, getFilmStock } from './services/filmFilters';
+import { openCamera, listCameras, flipTarget, isMirrored, loadCameraPrefs, saveCameraPrefs, CameraPrefs, CameraDevice, ActiveCamera } from './services/cameraDevices';
+import { CaptureMode, CAPTURE_MODES, SELF_TIMER_OPTIONS, BURST_INTERVAL_MS, BOOTH_INTERVAL_S, BOOTH_FRAME_RATIO, shotsFor, composeBoothStrip } from './services/captureModes';
+import { startClipRecording, ClipRecording, VideoSettings, CLIP_LIMITS, MIN_CLIP_SECONDS, loadVideoSettings, saveVideoSettings } from './services/videoRecorder';
+import { KioskConfig, loadKioskConfig, saveKioskConfig } from './services/kioskMode';
+import { KioskAdmin } from './components/KioskAdmin';
+import { AttractScreen } from './components/AttractScreen';
+import { getFilmPack, FRAME_ASPECTS, ShotBudget, InventoryItem, fetchShotBudget, fetchFilmInventory, loadFilmPack, loadKioskFilm, takeShot, loadLocalBudget, saveLocalBudget } from './services/filmPacks';
 
 // Simple throttle utility
 const throttle = (func: Function, limit: number) => {
@@ -75,9 +108,40 @@ function App() {
   const [user, setUser] = useState<any>(null);
   const [isAuthOpen, setIsAuthOpen] = useState(false);
 
+  // Kiosk: this device is a locked photo booth; guests only get the camera and the board
+  const [kiosk, setKiosk] = useState<KioskConfig>(loadKioskConfig);
+  const isKiosk = kiosk.enabled;
+  const [isKioskAdminOpen, setIsKioskAdminOpen] = useState(false);
+
   // Collaboration State
-  const [room, setRoom] = useState("");
-  const [cursors, setCursors] = useState<Record<string, any>>({});
+  // Invite links pre-fill the room, and carry the join code for private rooms
+  const [room, setRoom] = useState(() => readInviteFromUrl().room ?? "");
+  // What's typed in the room input. It only becomes the room on Enter or leaving the field,
+  // since going to a room joins it, and every public room passed on the way would keep us.
+  const [roomDraft, setRoomDraft] = useState(room);
+  useEffect(() => setRoomDraft(room), [room]);
+  const inviteCodeRef = useRef(readInviteFromUrl().code);
+  // A shared photo link (the QR code on a kiosk print) opens that photo in the gallery.
+  // Its token lets a guest who isn't in the room see that photo (see supabaseClient.ts).
+  const [linkedPhotoId, setLinkedPhotoId] = useState(() => readInviteFromUrl().photo);
+  const linkShareRef = useRef(readInviteFromUrl().share);
+  const [cursors, setCursors] = useState<Record<string, { x: number; y: number; color: string; lastUpdate: number }>>({});
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  // The channel handlers are bound once per room, so they read names through a ref
+  const participantsRef = useRef(participants);
+  participantsRef.current = participants;
+  const [presenceNotices, setPresenceNotices] = useState<PresenceNotice[]>([]);
+  // photoId -> when someone last typed on its back
+  const [typingNotes, setTypingNotes] = useState<Record<string, number>>({});
+  // Notes typed here but not saved yet, so our own echo doesn't overwrite newer text
+  const noteSaveTimersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const rotationSaveTimersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  // Reactions and comments of cards that have been flipped or opened, kept live by database changes
+  const [threads, setThreads] = useState<Record<string, PhotoThread>>({});
+  // Handlers bound once per room check whether a photo's thread is open through a ref
+  const threadsRef = useRef(threads);
+  threadsRef.current = threads;
+  const requestedThreadsRef = useRef<Set<string>>(new Set());
   const channelRef = useRef<any>(null);
 
   // Check Supabase Session
@@ -93,6 +157,38 @@ function App() {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Display name for the roster and cursor labels
+  const [profile, setProfile] = useState<Profile | null>(null);
+  useEffect(() => {
+    setProfile(null);
+    if (!user) return;
+
+    let ignore = false;
+    fetchProfile(user).then(loaded => { if (!ignore) setProfile(loaded); });
+    return () => { ignore = true; };
+  }, [user]);
+
+  // What we announce to the room; re-tracked whenever it changes
+  const isIdle = useIdle(60000);
+  const presenceRef = useRef<Participant | null>(null);
+  presenceRef.current = user ? {
+    userId: user.id,
+    name: profile?.displayName ?? '',
+    color: colorForUser(user.id),
+    status: isIdle ? 'idle' : 'active',
+    onlineAt: presenceRef.current?.onlineAt ?? Date.now(),
+  } : null;
+  const isPresenceTrackedRef = useRef(false);
+
+  // Read out by screen readers: film left, developing, and what others add to the room
+  const { announcements, announce } = useAnnouncer();
+
+  const showPresenceNotice = (message: string, color: string) => {
+    const id = crypto.randomUUID();
+    setPresenceNotices(prev => [...prev.slice(-2), { id, message, color }]);
+    setTimeout(() => setPresenceNotices(prev => prev.filter(n => n.id !== id)), 3000);
+  };
+
   const [state, setState] = useState<CameraState>({
     stream: null,
     permissionGranted: false,
@@ -102,8 +198,81 @@ function App() {
   });
   const [photos, setPhotos] = useState<Photo[]>([]);
 
+  // Drag handlers are bound when a drag starts, so they read photos through a ref
+  const photosRef = useRef(photos);
+  useEffect(() => {
+    photosRef.current = photos;
+  }, [photos]);
+
+  // Our own window onto the shared board
+  const [view, setView] = useState<BoardView>(homeView);
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleResize = () => setView(prev => clampView(prev));
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // Wheel pans; ctrl/cmd + wheel (and trackpad pinch, which arrives as ctrl + wheel) zooms.
+  // Registered natively so the browser's own page zoom can be prevented.
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      // Let scrollable panels and form fields keep their wheel
+      if ((e.target as HTMLElement).closest('textarea, select, .overflow-y-auto')) return;
+      e.preventDefault();
+      if (e.ctrlKey || e.metaKey) {
+        setView(prev => zoomViewAt(prev, e.clientX, e.clientY, Math.exp(-e.deltaY * 0.01)));
+      } else {
+        setView(prev => panView(prev, -e.deltaX, -e.deltaY));
+      }
+    };
+
+    root.addEventListener('wheel', handleWheel, { passive: false });
+    return () => root.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Dragging the empty board pans it; two fingers pinch to zoom
+  const boardPointersRef = useRef<Map<number, { x: number; y: number }>>(new Map());
+
+  const handleBoardPointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    boardPointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const handleBoardPointerMove = (e: React.PointerEvent) => {
+    const pointers = boardPointersRef.current;
+    const previous = pointers.get(e.pointerId);
+    if (!previous) return;
+
+    if (pointers.size === 1) {
+      setView(prev => panView(prev, e.clientX - previous.x, e.clientY - previous.y));
+    } else if (pointers.size === 2) {
+      const [other] = [...pointers.entries()].filter(([id]) => id !== e.pointerId).map(([, point]) => point);
+      const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+      const after = Math.hypot(e.clientX - other.x, e.clientY - other.y);
+      if (before > 0) {
+        setView(prev => zoomViewAt(prev, (e.clientX + other.x) / 2, (e.clientY + other.y) / 2, after / before));
+      }
+    }
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const handleBoardPointerUp = (e: React.PointerEvent) => {
+    boardPointersRef.current.delete(e.pointerId);
+  };
+
   // Film Roll Logic
-  const [shotsLeft, setShotsLeft] = useState(8);
+  const [budget, setBudget] = useState<ShotBudget>(loadLocalBudget);
+  const shotsLeft = budget.shotsLeft;
+  const filmPack = getFilmPack(budget.packId);
+  const [inventory, setInventory] = useState<InventoryItem[] | null>(null);
+  const [isPackPickerOpen, setIsPackPickerOpen] = useState(false);
   const [isReloading, setIsReloading] = useState(false);
 
   // A pending photo sits on the camera until dragged away
@@ -113,94 +282,173 @@ function App() {
   const [maxZIndex, setMaxZIndex] = useState(30);
   const [customText, setCustomText] = useState("May I meet you");
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  // A board card's layer editor is open
+  const [isDecorating, setIsDecorating] = useState(false);
   const [showPageFlash, setShowPageFlash] = useState(false);
   const [flashBurstPos, setFlashBurstPos] = useState<{ x: number, y: number } | null>(null);
   const [isDraggingPending, setIsDraggingPending] = useState(false);
-  const [mode, setMode] = useState<'photo' | 'video'>('photo');
+  const [mode, setMode] = useState<CaptureMode>('photo');
+  // Seconds of self-timer before any mode starts; 0 is off
+  const [selfTimer, setSelfTimer] = useState(0);
+  const [filterId, setFilterId] = useState('none');
+  const filmStock = getFilmStock(filterId);
   const [isRecording, setIsRecording] = useState(false);
   const [warningMsg, setWarningMsg] = useState<string | null>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
+
+  // Video: hold the shutter to record (or tap to start and tap again to stop), then trim
+  const [videoSettings, setVideoSettings] = useState<VideoSettings>(loadVideoSettings);
+  const updateVideoSettings = (changes: Partial<VideoSettings>) => {
+    const next = { ...videoSettings, ...changes };
+    setVideoSettings(next);
+    saveVideoSettings(next);
+  };
+  const recordingRef = useRef<Promise<ClipRecording> | null>(null);
+  const recordStartRef = useRef(0);
+  const recordLimitRef = useRef<ReturnType<typeof setTimeout>>();
+  // Set while the shutter is held for a recording the press started or stopped
+  const shutterHoldRef = useRef<number | null>(null);
+  // A hold let go before the recording got going (the shot is spent over the network first)
+  const releasedEarlyRef = useRef(false);
+  const [recordSeconds, setRecordSeconds] = useState(0);
+  const [pendingClip, setPendingClip] = useState<{ url: string; duration: number; width: number; height: number } | null>(null);
 
   const playPrinting = usePrintingSound();
   const playReload = useReloadSound();
   const playShutter = useShutterSound();
 
-  // Load & Subscribe to Photos & Broadcasts
+  // Signed in, the board is only loaded once we're a member of the room.
+  // Ownership decides who may clear the whole board and change room settings.
+  const [roomInfo, setRoomInfo] = useState<Room | null>(null);
+  const [roomAccess, setRoomAccess] = useState<RoomAccess>('idle');
+  const [isRoomSettingsOpen, setIsRoomSettingsOpen] = useState(false);
+  const isMember = !!user && roomAccess === 'joined' && roomInfo?.id === room;
+  const isRoomOwner = isMember && roomInfo?.ownerId === user.id;
+
+  const enterRoom = async (code?: string) => {
+    const result = await joinRoom(room, code);
+    setRoomAccess(result.status);
+    setRoomInfo(result.status === 'joined' ? result.room : null);
+    return result;
+  };
+
   useEffect(() => {
-    if (!user) {
-      setPhotos([]);
-      return;
-    }
+    setRoomInfo(null);
+    setRoomAccess('idle');
+    if (!user || !room.trim()) return;
 
     let ignore = false;
+    setRoomAccess('joining');
+    joinRoom(room, inviteCodeRef.current ?? undefined)
+      .then(result => {
+        if (ignore) return;
+        setRoomAccess(result.status);
+        setRoomInfo(result.status === 'joined' ? result.room : null);
+        if (result.status === 'joined' && inviteCodeRef.current) {
+          inviteCodeRef.current = null;
+          clearInviteCodeFromUrl();
+        }
+        if (result.status === 'code-required') setIsRoomSettingsOpen(true);
+      })
+      .catch(err => {
+        console.error("Error joining room:", err);
+        if (!ignore) setRoomAccess('idle');
+      });
+    return () => { ignore = true; };
+  }, [room, user]);
 
-    // Clear photos immediately when switching rooms to avoid confusion
-    setPhotos([]);
-    setCursors({});
+  // Tiles of the board already fetched for this room. Bumping the generation
+  // makes loads still in flight for a previous room throw their results away.
+  const loadedTilesRef = useRef<Set<string>>(new Set());
+  const boardGenerationRef = useRef(0);
+  const [boardLoadKey, setBoardLoadKey] = useState(0);
 
-    // 1. Fetch initial photos
-    const fetchPhotos = async () => {
-      const { data, error } = await supabase
-        .from('photos')
-        .select('*')
-        .eq('room_id', room)
-        .order('created_at', { ascending: true })
-        .limit(50);
-
-      if (!ignore && data) {
-        // Map DB fields to Photo type
-        const mapped: Photo[] = data.map((p: any) => {
-          const isNormalized = p.x >= 0 && p.x <= 1 && p.y >= 0 && p.y <= 1;
-          return {
-            id: p.id,
-            dataUrl: p.data_url,
-            timestamp: new Date(p.created_at).getTime(),
-            isDeveloping: false,
-            isStaticNegative: false,
-            isEjecting: false,
-            caption: p.caption,
-            x: isNormalized ? p.x * window.innerWidth : p.x,
-            y: isNormalized ? p.y * window.innerHeight : p.y,
-            rotation: p.rotation,
-            zIndex: p.z_index,
-            customText: p.caption ? undefined : "Shared Memory",
-            mediaType: p.data_url.startsWith('data:video') ? 'video' : 'photo'
-          };
+  const loadTile = async (tile: BoardTile, generation: number) => {
+    let after: PhotoCursor | null = null;
+    do {
+      const page = await fetchPhotoPage(room, { region: tile, after });
+      if (boardGenerationRef.current !== generation) return;
+
+      if (page.photos.length > 0) {
+        setPhotos(prev => {
+          const known = new Set(prev.map(ph => ph.id));
+          const fresh = page.photos.filter(ph => !known.has(ph.id));
+          return fresh.length > 0 ? [...prev, ...fresh] : prev;
         });
-        setPhotos(mapped);
-        if (mapped.length > 0) {
-          setMaxZIndex(Math.max(...mapped.map(p => p.zIndex)) + 1);
-        }
+        setMaxZIndex(prev => Math.max(prev, ...page.photos.map(ph => ph.zIndex + 1)));
       }
-    };
+      after = page.next;
+    } while (after);
+  };
+
+  // Fetch the tiles around the view that we haven't loaded yet
+  useEffect(() => {
+    if (!user || !isMember) return;
+
+    const generation = boardGenerationRef.current;
+    tilesInRegion(visibleRegion(view, CARD_WIDTH)).forEach(tile => {
+      if (loadedTilesRef.current.has(tile.key)) return;
+      loadedTilesRef.current.add(tile.key);
+      loadTile(tile, generation).catch(err => {
+        console.error("Error loading photos:", err);
+        // Try again next time the view passes by
+        if (boardGenerationRef.current === generation) loadedTilesRef.current.delete(tile.key);
+      });
+    });
+  }, [view, boardLoadKey]);
+
+  // Load & Subscribe to Photos & Broadcasts
+  useEffect(() => {
+    let ignore = false;
 
-    fetchPhotos();
+    // Signed out: show the board saved on this device
+    if (!user) {
+      setPhotos([]);
+      loadLocalPhotos()
+        .then(local => {
+          if (ignore) return;
+          setPhotos(local);
+          if (local.length > 0) {
+            setMaxZIndex(Math.max(...local.map(p => p.zIndex)) + 1);
+          }
+        })
+        .catch(err => console.error("Error loading local photos:", err));
+      return () => { ignore = true; };
+    }
 
-    // 2. Subscribe to changes & Broadcasts
+    // Clear photos immediately when switching rooms to avoid confusion
+    setPhotos([]);
+    setCursors({});
+    setTypingNotes({});
+    setThreads({});
+    requestedThreadsRef.current = new Set();
+    setParticipants([]);
+    if (!isMember) return;
+
+    // 1. Photos are loaded tile by tile as the view reaches them (see the effect below)
+    loadedTilesRef.current = new Set();
+    boardGenerationRef.current++;
+    setBoardLoadKey(key => key + 1);
+
+    // Move any of our own base64 rows in this room into object storage
+    migrateLegacyPhotos(room, user.id);
+
+    // 2. Subscribe to changes, Broadcasts & Presence. The channel is private: the database
+    // only lets members listen or send, since notes are typed and cursors moved over it.
+    // Anything that changes a photo for good still arrives as a database change below.
+    let hasSynced = false;
+    const ownerId = roomInfo?.ownerId;
     const channel = supabase
-      .channel(`room:${room}`)
+      .channel(`room:${room}`, { config: { private: true, presence: { key: user.id } } })
       .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'photos', filter: `room_id=eq.${room}` }, (payload) => {
         if (ignore) return;
 
-        const p = payload.new as any;
-        const isNormalized = p.x >= 0 && p.x <= 1 && p.y >= 0 && p.y <= 1;
-
-        const newPhoto: Photo = {
-          id: p.id,
-          dataUrl: p.data_url,
-          timestamp: new Date(p.created_at).getTime(),
-          isDeveloping: true,
-          isStaticNegative: false,
-          isEjecting: false,
-          caption: p.caption,
-          x: isNormalized ? p.x * window.innerWidth : p.x,
-          y: isNormalized ? p.y * window.innerHeight : p.y,
-          rotation: p.rotation,
-          zIndex: p.z_index,
-          customText: p.caption ? undefined : "Shared Memory",
-          mediaType: p.data_url.startsWith('data:video') ? 'video' : 'photo'
-        };
+        const newPhoto = mapPhotoRow(payload.new, { isDeveloping: true });
+        if (newPhoto.status === 'pending') setPendingCountKey(key => key + 1);
+        if (newPhoto.userId !== user.id && newPhoto.status === 'published') {
+          const author = participantsRef.current.find(p => p.userId === newPhoto.userId)?.name;
+          announce(`New photo from ${author || 'someone in the room'}`);
+        }
 
         setPhotos(prev => {
           if (prev.find(existing => existing.id === newPhoto.id)) return prev;
@@ -211,10 +459,103 @@ function App() {
           setPhotos(prev => prev.map(ph => ph.id === newPhoto.id ? { ...ph, isDeveloping: false } : ph));
         }, 5200);
       })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'photos', filter: `room_id=eq.${room}` }, (payload) => {
+        if (ignore) return;
+
+        const moved = mapPhotoRow(payload.new);
+
+        if (moved.deletedAt) {
+          setPhotos(prev => prev.filter(ph => ph.id !== moved.id));
+          return;
+        }
+
+        // Moderators stop seeing what was turned down; the uploader keeps it, marked rejected
+        if (moved.status === 'rejected' && moved.userId !== user.id) {
+          setPhotos(prev => prev.filter(ph => ph.id !== moved.id));
+          setPendingCountKey(key => key + 1);
+          return;
+        }
+
+        // Moved in from a part of the board we haven't loaded
+        if (!photosRef.current.some(ph => ph.id === moved.id)) {
+          setPhotos(prev => prev.some(ph => ph.id === moved.id) ? prev : [...prev, moved]);
+          setMaxZIndex(prev => Math.max(prev, moved.zIndex + 1));
+          return;
+        }
+
+        // Reviewed by another moderator
+        if (photosRef.current.find(ph => ph.id === moved.id)?.status !== moved.status) setPendingCountKey(key => key + 1);
+
+        setPhotos(prev => prev.map(ph => {
+          if (ph.id !== moved.id) return ph;
+          // Media fields change when a legacy row is migrated to object storage
+          const media = { objectKey: moved.objectKey, mimeType: moved.mimeType, byteSize: moved.byteSize, width: moved.width, height: moved.height };
+          const review = { status: moved.status, flags: moved.flags };
+          const backNote = noteSaveTimersRef.current[ph.id] ? ph.backNote : moved.backNote;
+          if (!isNewerMove(moved.movedAt, ph.movedAt)) return { ...ph, ...media, ...review, backNote, layers: moved.layers };
+          return { ...ph, ...media, ...review, backNote, layers: moved.layers, x: moved.x, y: moved.y, rotation: moved.rotation, zIndex: moved.zIndex, movedAt: moved.movedAt };
+        }));
+        setMaxZIndex(prev => Math.max(prev, moved.zIndex + 1));
+      })
       .on('broadcast', { event: 'FLASH' }, () => {
         setShowPageFlash(true);
         setTimeout(() => setShowPageFlash(false), 400);
       })
+      .on('broadcast', { event: 'NOTE' }, (payload) => {
+        const { photoId, userId, note } = payload.payload;
+        // Only the uploader can write on the back, so a note from anyone else is ignored
+        if (userId === user.id || photosRef.current.find(ph => ph.id === photoId)?.userId !== userId) return;
+
+        setPhotos(prev => prev.map(ph => ph.id === photoId ? { ...ph, backNote: note } : ph));
+        setTypingNotes(prev => ({ ...prev, [photoId]: Date.now() }));
+      })
+      // Reactions and comments come from the database, so nobody can stamp or write as someone
+      // else. Deletes can't be filtered by room, so they're heard on this channel instead (below).
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'photo_reactions', filter: `room_id=eq.${room}` }, (payload) => {
+        const { photo_id, user_id, emoji } = payload.new;
+        if (ignore || user_id === user.id) return;
+        updateReaction(photo_id, user_id, emoji, true);
+      })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'photo_comments', filter: `room_id=eq.${room}` }, async (payload) => {
+        if (ignore || payload.new.user_id === user.id) return;
+        let authorName = participantsRef.current.find(p => p.userId === payload.new.user_id)?.name;
+        if (!authorName) {
+          authorName = await fetchDisplayNames([payload.new.user_id])
+            .then(names => names[payload.new.user_id])
+            .catch(err => {
+              console.error("Error loading commenter name:", err);
+              return undefined;
+            });
+        }
+        if (!ignore) addComment(mapCommentRow(payload.new, authorName));
+      })
+      // Whoever took back a reaction or a comment only says which photo; it's read again from
+      // the database rather than trusting the sender about what went
+      .on('broadcast', { event: 'UNREACT' }, (payload) => {
+        if (!ignore) refreshPhotoSocial(payload.payload.photoId);
+      })
+      .on('broadcast', { event: 'UNCOMMENT' }, (payload) => {
+        if (!ignore) refreshPhotoSocial(payload.payload.photoId);
+      })
+      .on('broadcast', { event: 'MODERATOR' }, (payload) => {
+        if (payload.payload.userId === user.id) setModeratorCheckKey(key => key + 1);
+      })
+      .on('broadcast', { event: 'KICK' }, async (payload) => {
+        const { userId, kickedBy } = payload.payload;
+        if (userId !== user.id || kickedBy !== ownerId) return;
+
+        // Broadcasts are only as honest as their sender; the database says whether we're still in
+        try {
+          const result = await joinRoom(room);
+          if (ignore || result.status === 'joined') return;
+          setRoomInfo(null);
+          setRoomAccess(result.status);
+          setWarningMsg("KICKED");
+          setTimeout(() => setWarningMsg(null), 2000);
+        } catch (err) {
+          console.error("Error checking room membership:", err);
+        }
+      })
       .on('broadcast', { event: 'CURSOR' }, (payload) => {
         const { userId, x, y, color } = payload.payload;
         if (userId === user.id) return;
@@ -224,7 +565,35 @@ function App() {
           [userId]: { x, y, color, lastUpdate: Date.now() }
         }));
       })
-      .subscribe();
+      .on('presence', { event: 'sync' }, () => {
+        if (ignore) return;
+        const state = channel.presenceState<Participant>();
+        // Someone with several tabs open shows up once, as their latest tab
+        const present = Object.values(state).map(metas => metas[metas.length - 1]);
+        setParticipants(present.sort((a, b) => a.onlineAt - b.onlineAt));
+        hasSynced = true;
+      })
+      // Re-tracking (e.g. going idle) also fires join/leave; only a first join or last leave is news
+      .on('presence', { event: 'join' }, ({ key, currentPresences, newPresences }) => {
+        if (ignore || !hasSynced || key === user.id || currentPresences.length > 0) return;
+        const joined = newPresences[0] as unknown as Participant;
+        showPresenceNotice(`${joined.name} joined`, joined.color);
+      })
+      .on('presence', { event: 'leave' }, ({ key, currentPresences, leftPresences }) => {
+        if (ignore || key === user.id || currentPresences.length > 0) return;
+        const left = leftPresences[0] as unknown as Participant;
+        showPresenceNotice(`${left.name} left`, left.color);
+        setCursors(prev => {
+          const next = { ...prev };
+          delete next[key];
+          return next;
+        });
+      })
+      .subscribe((status) => {
+        if (status !== 'SUBSCRIBED' || ignore) return;
+        isPresenceTrackedRef.current = true;
+        if (presenceRef.current) channel.track(presenceRef.current);
+      });
 
     channelRef.current = channel;
 
@@ -232,46 +601,256 @@ function App() {
       ignore = true;
       supabase.removeChannel(channel);
       channelRef.current = null;
+      isPresenceTrackedRef.current = false;
     };
-  }, [room, user]);
+  }, [room, user, isMember]);
+
+  // Tell the room when we go idle, come back or rename ourselves
+  useEffect(() => {
+    if (!isPresenceTrackedRef.current || !presenceRef.current) return;
+    channelRef.current?.track(presenceRef.current);
+  }, [isIdle, profile?.displayName]);
+
+  // Captions follow the room's setup when signed in, and this device's when signed out
+  const [localCaptionConfig, setLocalCaptionConfig] = useState<CaptionConfig>(loadLocalCaptionConfig);
+  const captionConfig = user ? { ...DEFAULT_CAPTION_CONFIG, ...roomInfo?.captionConfig } : localCaptionConfig;
+  const isCaptionStyleFixed = usesLocalCaptions(captionConfig);
+  const [isCaptionSettingsOpen, setIsCaptionSettingsOpen] = useState(false);
+
+  // Persona, language and length are each user's own, whatever room they are in
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(loadCaptionStyle);
+  const updateCaptionStyle = (changes: Partial<CaptionStyle>) => {
+    const next = { ...captionStyle, ...changes };
+    setCaptionStyle(next);
+    saveCaptionStyle(next);
+  };
 
-  // Broadcast Mouse Movement
-  const handleMouseMove = useCallback(throttle((e: React.MouseEvent) => {
-    if (!user || !channelRef.current) return;
+  // Alternatives offered on the pending photo until it is dragged off to develop
+  const [captionOptions, setCaptionOptions] = useState<string[]>([]);
+  const [isCaptionLoading, setIsCaptionLoading] = useState(false);
+  const captionRoundRef = useRef(0);
+  const captionRequestRef = useRef(0);
+
+  const requestCaptions = (photoId: string, url: string, round: number) => {
+    const request = ++captionRequestRef.current;
+    captionRoundRef.current = round;
+    setIsCaptionLoading(true);
+    generateCaptionOptions(url, captionConfig, isKiosk ? kiosk.captionStyle : captionStyle, 3, round)
+      .then(options => {
+        // A newer request (or a new photo) supersedes this one
+        if (captionRequestRef.current !== request) return;
+        setCaptionOptions(options);
+        setPendingPhoto(curr => curr && curr.id === photoId ? { ...curr, caption: options[0] } : curr);
+      })
+      .finally(() => {
+        if (captionRequestRef.current === request) setIsCaptionLoading(false);
+      });
+  };
 
-    const x = e.clientX / window.innerWidth;
-    const y = e.clientY / window.innerHeight;
+  const handleRegenerateCaption = () => {
+    if (!pendingPhoto) return;
+    requestCaptions(pendingPhoto.id, pendingPhoto.dataUrl, captionRoundRef.current + 1);
+  };
 
-    const colorHash = user.id.split('').reduce((acc: number, char: string) => acc + char.charCodeAt(0), 0);
-    const hue = colorHash % 360;
-    const color = `hsl(${hue}, 70%, 60%)`;
+  const handlePickCaption = (caption: string) => {
+    setPendingPhoto(curr => curr ? { ...curr, caption } : curr);
+  };
 
-    channelRef.current.send({
-      type: 'broadcast',
-      event: 'CURSOR',
-      payload: { userId: user.id, x, y, color }
-    });
-  }, 100), [user]);
+  const handleSaveCaptionConfig = async (config: CaptionConfig) => {
+    if (!user) {
+      setLocalCaptionConfig(config);
+      saveLocalCaptionConfig(config);
+    } else {
+      if (!isRoomOwner) return;
+      try {
+        await updateRoomCaptionConfig(room, config);
+        setRoomInfo(prev => prev ? { ...prev, captionConfig: config } : prev);
+      } catch (error) {
+        console.error("Error saving caption settings:", error);
+        alert("Failed to save caption settings!");
+        return;
+      }
+    }
+    setIsCaptionSettingsOpen(false);
+  };
+
+  const handleJoinWithCode = async (code: string) => {
+    try {
+      const result = await enterRoom(code);
+      if (result.status === 'joined') setIsRoomSettingsOpen(false);
+      else alert("That join code didn't work.");
+    } catch (error) {
+      console.error("Error joining room:", error);
+      alert("Failed to join the room!");
+    }
+  };
+
+  const handleCreateRoom = async (title: string, visibility: RoomVisibility, useTypedId: boolean) => {
+    const id = useTypedId ? room.trim() : generateRoomId();
+    try {
+      const created = await createRoom(id, title, visibility);
+      setRoomInfo(created);
+      setRoomAccess('joined');
+      setRoom(id);
+    } catch (error) {
+      console.error("Error creating room:", error);
+      alert("Failed to create the room!");
+    }
+  };
+
+  const handleUpdateRoom = async (changes: RoomChanges) => {
+    if (!isRoomOwner) return;
+    try {
+      await updateRoom(room, changes);
+      setRoomInfo(prev => prev ? { ...prev, ...changes } : prev);
+    } catch (error) {
+      console.error("Error updating room:", error);
+      alert("Failed to update the room!");
+    }
+  };
+
+  const handleSetModerator = async (member: RoomMember, on: boolean) => {
+    if (!isRoomOwner) return;
+    try {
+      await setRoomModerator(room, member.userId, on);
+      broadcast('MODERATOR', { userId: member.userId });
+    } catch (error) {
+      console.error("Error changing moderator:", error);
+      alert("Failed to change the moderator!");
+    }
+  };
+
+  // Moderators see what is held for review; the count drives the badge on the review button
+  const [isModerator, setIsModerator] = useState(false);
+  const [moderatorCheckKey, setModeratorCheckKey] = useState(0);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [pendingCountKey, setPendingCountKey] = useState(0);
+
+  useEffect(() => {
+    setIsModerator(false);
+    if (!isMember) return;
+    let ignore = false;
+    isRoomModerator(room)
+      .then(result => { if (!ignore) setIsModerator(result); })
+      .catch(err => console.error("Error checking moderator:", err));
+    return () => { ignore = true; };
+  }, [room, isMember, roomInfo?.ownerId, moderatorCheckKey]);
+
+  useEffect(() => {
+    setPendingCount(0);
+    if (!isModerator) return;
+    let ignore = false;
+    countPendingPhotos(room)
+      .then(count => { if (!ignore) setPendingCount(count); })
+      .catch(err => console.error("Error counting photos to review:", err));
+    return () => { ignore = true; };
+  }, [room, isModerator, pendingCountKey]);
+
+  const handleKickMember = async (member: RoomMember) => {
+    if (!isRoomOwner) return;
+    try {
+      await kickMember(room, member.userId);
+      broadcast('KICK', { userId: member.userId, kickedBy: user.id });
+    } catch (error) {
+      console.error("Error kicking member:", error);
+      alert("Failed to remove the member!");
+    }
+  };
+
+  // Signed in, the roll and pack inventory live on the server; signed out, on this device
+  useEffect(() => {
+    setIsPackPickerOpen(false);
+    if (!user || !room.trim()) {
+      setBudget(loadLocalBudget());
+      setInventory(null);
+      return;
+    }
+
+    let ignore = false;
+    Promise.all([fetchShotBudget(room), fetchFilmInventory()])
+      .then(([roomBudget, packs]) => {
+        if (ignore) return;
+        setBudget(roomBudget);
+        setInventory(packs);
+      })
+      .catch(err => console.error("Error loading film:", err));
+    return () => { ignore = true; };
+  }, [room, user]);
 
-  // Clean up old cursors
+  // The box is restocked daily, so it's counted again each time it's opened
+  useEffect(() => {
+    if (!isPackPickerOpen || !user) return;
+    fetchFilmInventory()
+      .then(setInventory)
+      .catch(err => console.error("Error loading film:", err));
+  }, [isPackPickerOpen]);
+
+  // Broadcast pointer movement anywhere on the board, for mouse, touch and pen alike.
+  // Listening on window means drags that stop propagation are still shared.
+  useEffect(() => {
+    if (!user || !isMember) return;
+
+    const color = colorForUser(user.id);
+    const sendCursor = throttle((e: PointerEvent) => {
+      channelRef.current?.send({
+        type: 'broadcast',
+        event: 'CURSOR',
+        payload: { userId: user.id, ...toBoardPoint(e.clientX, e.clientY, viewRef.current), color }
+      });
+    }, 100);
+
+    window.addEventListener('pointermove', sendCursor, { passive: true });
+    window.addEventListener('pointerdown', sendCursor, { passive: true });
+    return () => {
+      window.removeEventListener('pointermove', sendCursor);
+      window.removeEventListener('pointerdown', sendCursor);
+    };
+  }, [user, isMember]);
+
+  // Clear typing indicators nobody has refreshed lately (cursors go when their owner leaves)
   useEffect(() => {
     const interval = setInterval(() => {
-      setCursors(prev => {
+      setTypingNotes(prev => {
         const now = Date.now();
+        const stale = Object.keys(prev).filter(id => now - prev[id] > 2000);
+        if (stale.length === 0) return prev;
         const next = { ...prev };
-        let changed = false;
-        Object.entries(next).forEach(([id, cursor]) => {
-          if (now - cursor.lastUpdate > 2000) {
-            delete next[id];
-            changed = true;
-          }
-        });
-        return changed ? next : prev;
+        stale.forEach(id => delete next[id]);
+        return next;
       });
     }, 1000);
     return () => clearInterval(interval);
   }, []);
 
+  // Camera choice and mirroring are remembered on this device
+  const [cameraPrefs, setCameraPrefs] = useState<CameraPrefs>(loadCameraPrefs);
+  const updateCameraPrefs = (changes: Partial<CameraPrefs>) => {
+    setCameraPrefs(prev => {
+      const next = { ...prev, ...changes };
+      saveCameraPrefs(next);
+      return next;
+    });
+  };
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [activeCamera, setActiveCamera] = useState<ActiveCamera | null>(null);
+  // Bumped to reopen the camera, e.g. when the one in use is unplugged
+  const [cameraRestartKey, setCameraRestartKey] = useState(0);
+  const isPreviewMirrored = isMirrored(cameraPrefs.mirrorPreview, activeCamera);
+  const isCaptureMirrored = isMirrored(cameraPrefs.mirrorCapture, activeCamera);
+
+  // Keep the camera list current as cameras are plugged in and out
+  useEffect(() => {
+    const refresh = () => listCameras().then(setCameras).catch(err => console.error("Error listing cameras:", err));
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [state.permissionGranted]);
+
+  const handleFlipCamera = () => {
+    const target = activeCamera && flipTarget(activeCamera, cameras);
+    if (target) updateCameraPrefs(target);
+  };
+
   // Initialize Camera
   useEffect(() => {
     let isMounted = true;
@@ -286,22 +865,21 @@ function App() {
       }
 
       try {
-        const stream = await navigator.mediaDevices.getUserMedia({
-          video: {
-            facingMode: 'user',
-            width: { ideal: 1280 },
-            height: { ideal: 1280 }
-          },
-          audio: false
-        });
+        const { stream, camera } = await openCamera(cameraPrefs);
 
         if (!isMounted) {
           stream.getTracks().forEach(track => track.stop());
           return;
         }
 
+        // Unplugged mid-session: pick whatever camera is left
+        stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+          if (isMounted) setCameraRestartKey(key => key + 1);
+        });
+
         currentStream = stream;
         streamRef.current = stream;
+        setActiveCamera(camera);
         setState(prev => ({ ...prev, stream, permissionGranted: true }));
       } catch (error) {
         if (isMounted) {
@@ -319,7 +897,7 @@ function App() {
         currentStream.getTracks().forEach(track => track.stop());
       }
     };
-  }, [state.isPoweredOn]);
+  }, [state.isPoweredOn, cameraPrefs.deviceId, cameraPrefs.facing, cameraRestartKey]);
 
   useEffect(() => {
     const videoEl = videoRef.current;
@@ -341,7 +919,7 @@ function App() {
     }
   };
 
-  const ejectMedia = (url: string, type: 'photo' | 'video') => {
+  const ejectMedia = (url: string, type: 'photo' | 'video', size: { width: number, height: number }, clipRange?: ClipRange, aspect: FrameAspect = filmPack.aspect) => {
     playPrinting();
 
     let spawnX = 100;
@@ -361,6 +939,11 @@ function App() {
       isDeveloping: false,
       isStaticNegative: type === 'photo',
       isEjecting: true,
+      width: size.width,
+      height: size.height,
+      filterId,
+      aspect,
+      borderColor: filmPack.borderColor,
       // If AI is OFF, use the custom text as the main caption so it persists
       caption: isAiEnabled ? undefined : customText,
       customText: undefined,
@@ -368,212 +951,1065 @@ function App() {
       y: spawnY,
       rotation: 0,
       zIndex: 1,
-      mediaType: type
+      mediaType: type,
+      // Clips are recorded as the sensor sees them and mirrored on playback, like the film stock
+      mirrored: type === 'video' && isCaptureMirrored ? true : undefined,
+      // A kiosk prints the QR code before the photo is saved, so it picks the token itself
+      shareToken: isKiosk ? newShareToken() : undefined,
+      ...clipRange
     };
 
-    setPendingPhoto(newPhoto);
+    setPendingPhoto(newPhoto);
+    announce(`${type === 'video' ? 'Clip' : 'Photo'} printed. Drag it onto the board, or focus it and use the arrow keys, to develop it.`);
+
+    setCaptionOptions([]);
+    if (isAiEnabled && type === 'photo') {
+      requestCaptions(newPhoto.id, url, 0);
+    }
+
+    setTimeout(() => {
+      setState(prev => ({ ...prev, isCapturing: false }));
+      setIsRecording(false);
+    }, 500);
+
+    setTimeout(() => {
+      setPendingPhoto(curr => curr ? { ...curr, isEjecting: false } : null);
+    }, 3000);
+  };
+
+  // Self-timer and booth countdowns show on the shots display; pressing the shutter cancels one
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const cancelCountdownRef = useRef<(() => void) | null>(null);
+
+  // Resolves true once it reaches zero, false if cancelled
+  const runCountdown = (seconds: number) => new Promise<boolean>((resolve) => {
+    let left = seconds;
+    setCountdown(left);
+    const interval = setInterval(() => {
+      left--;
+      if (left > 0) setCountdown(left);
+      else finish(true);
+    }, 1000);
+    const finish = (completed: boolean) => {
+      clearInterval(interval);
+      cancelCountdownRef.current = null;
+      setCountdown(null);
+      resolve(completed);
+    };
+    cancelCountdownRef.current = () => finish(false);
+  });
+
+  // Burst frames wait in the camera and come out one by one as each card is pulled off
+  const ejectQueueRef = useRef<{ url: string; size: { width: number; height: number } }[]>([]);
+
+  const showWarning = (message: string) => {
+    setWarningMsg(message);
+    announce(message.toLowerCase());
+    setTimeout(() => setWarningMsg(null), 2000);
+  };
+
+  // Spend shots from the roll before exposing them; false if there isn't enough film
+  const spendShots = async (count: number) => {
+    if (user) {
+      try {
+        setBudget(await takeShot(room, count));
+      } catch (error) {
+        console.error("Shot rejected:", error);
+        setBudget(await fetchShotBudget(room).catch(() => ({ ...budget, shotsLeft: 0 })));
+        showWarning("NO FILM");
+        return false;
+      }
+    } else {
+      if (budget.shotsLeft < count) {
+        showWarning("NO FILM");
+        return false;
+      }
+      const next = { ...budget, shotsLeft: budget.shotsLeft - count, shotsTaken: budget.shotsTaken + count };
+      setBudget(next);
+      saveLocalBudget(next);
+    }
+    return true;
+  };
+
+  const fireFlash = () => {
+    playShutter();
+    channelRef.current?.send({ type: 'broadcast', event: 'FLASH' });
+    if (!state.isFlashOn) return;
+
+    // Calculate flash burst position
+    if (cameraBodyRef.current) {
+      const rect = cameraBodyRef.current.getBoundingClientRect();
+      const flashX = rect.left + (rect.width * 0.23);
+      const flashY = rect.top + (rect.height * 0.23);
+      setFlashBurstPos({ x: flashX, y: flashY });
+    }
+
+    setShowPageFlash(true);
+    setTimeout(() => setShowPageFlash(false), 400);
+
+    const flash = document.getElementById('camera-flash');
+    if (flash) {
+      flash.style.opacity = '1';
+      setTimeout(() => { flash.style.opacity = '0'; }, 100);
+    }
+  };
+
+  // Grab the viewfinder, mirrored if asked, cropped to `ratio` and developed in the loaded stock
+  const captureFrame = (ratio: number) => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!video || !canvas || !ctx) return null;
+
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    ctx.save();
+    if (isCaptureMirrored) {
+      ctx.translate(canvas.width, 0);
+      ctx.scale(-1, 1);
+    }
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    ctx.restore();
+
+    const cropW = Math.round(Math.min(canvas.width, canvas.height * ratio));
+    const cropH = Math.round(cropW / ratio);
+    const startX = (canvas.width - cropW) / 2;
+    const startY = (canvas.height - cropH) / 2;
+
+    const frameCanvas = document.createElement('canvas');
+    frameCanvas.width = cropW;
+    frameCanvas.height = cropH;
+    const frameCtx = frameCanvas.getContext('2d');
+    if (!frameCtx) return null;
+
+    frameCtx.drawImage(canvas, startX, startY, cropW, cropH, 0, 0, cropW, cropH);
+    applyFilmStock(frameCanvas, filterId);
+    return frameCanvas;
+  };
+
+  const startRecording = () => {
+    const stream = state.stream;
+    if (!stream) return;
+
+    setIsRecording(true);
+    playShutter(); // Start sound
+
+    recordStartRef.current = performance.now();
+    recordingRef.current = startClipRecording(stream, videoSettings.withAudio);
+    recordingRef.current.catch(error => {
+      console.error("Error starting recording:", error);
+      alert("Failed to start recording!");
+      recordingRef.current = null;
+      setIsRecording(false);
+    });
+    recordLimitRef.current = setTimeout(stopRecording, videoSettings.maxSeconds * 1000);
+
+    if (releasedEarlyRef.current) {
+      releasedEarlyRef.current = false;
+      stopRecording();
+    }
+  };
+
+  const takePhoto = async () => {
+    releasedEarlyRef.current = false;
+
+    // The shutter stops a running self-timer
+    if (cancelCountdownRef.current) {
+      cancelCountdownRef.current();
+      return;
+    }
+
+    if (pendingPhoto || pendingClip || ejectQueueRef.current.length > 0) return;
+
+    // Validate Room ID
+    if (!room.trim()) {
+      setWarningMsg("MISSING ID");
+      setIsSettingsOpen(true);
+      setTimeout(() => setWarningMsg(null), 2000);
+      return;
+    }
+
+    if (user && !isMember) {
+      setWarningMsg("NO ACCESS");
+      setIsRoomSettingsOpen(true);
+      setTimeout(() => setWarningMsg(null), 2000);
+      return;
+    }
+
+    if (shotsLeft <= 0 || isReloading || !state.isPoweredOn) return;
+
+    const shots = shotsFor(mode, shotsLeft);
+    if (shots > shotsLeft) {
+      showWarning(`NEEDS ${shots} SHOTS`);
+      return;
+    }
+
+    if (!videoRef.current || !canvasRef.current || state.isCapturing || isRecording) return;
+
+    const video = videoRef.current;
+    if (video.readyState < 2 || video.videoWidth === 0 || video.videoHeight === 0) return;
+
+    if (selfTimer > 0 && !(await runCountdown(selfTimer))) return;
+
+    setState(prev => ({ ...prev, isCapturing: true }));
+    if (!(await spendShots(shots))) {
+      setState(prev => ({ ...prev, isCapturing: false }));
+      return;
+    }
+
+    if (mode === 'video') {
+      setState(prev => ({ ...prev, isCapturing: false }));
+      startRecording();
+      return;
+    }
+
+    if (mode === 'booth') {
+      const frames: HTMLCanvasElement[] = [];
+      for (let i = 0; i < shots; i++) {
+        // Pressing the shutter (or cancelling) between frames calls the strip off
+        if (i > 0 && !(await runCountdown(BOOTH_INTERVAL_S))) {
+          setState(prev => ({ ...prev, isCapturing: false }));
+          return;
+        }
+        fireFlash();
+        const frame = captureFrame(BOOTH_FRAME_RATIO);
+        if (frame) frames.push(frame);
+      }
+      const strip = composeBoothStrip(frames, filmPack.borderColor);
+      const dataUrl = strip.toDataURL('image/jpeg', 0.9);
+      setTimeout(() => {
+        ejectMedia(dataUrl, 'photo', { width: strip.width, height: strip.height }, undefined, 'strip');
+      }, 4000);
+      return;
+    }
+
+    // Photo and burst: each frame is cropped to the frame format of the loaded pack
+    const ratio = FRAME_ASPECTS[filmPack.aspect];
+    const exposures: { url: string; size: { width: number; height: number } }[] = [];
+    for (let i = 0; i < shots; i++) {
+      if (i > 0) await new Promise(resolve => setTimeout(resolve, BURST_INTERVAL_MS));
+      fireFlash();
+      const frame = captureFrame(ratio);
+      if (frame) exposures.push({ url: frame.toDataURL('image/jpeg', 0.9), size: { width: frame.width, height: frame.height } });
+    }
+
+    const [first, ...rest] = exposures;
+    if (!first) {
+      setState(prev => ({ ...prev, isCapturing: false }));
+      return;
+    }
+    ejectQueueRef.current = rest;
+    setTimeout(() => {
+      ejectMedia(first.url, 'photo', first.size);
+    }, 4000);
+  };
+
+  const stopRecording = async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+
+    const elapsed = (performance.now() - recordStartRef.current) / 1000;
+    if (elapsed < MIN_CLIP_SECONDS) {
+      setTimeout(stopRecording, (MIN_CLIP_SECONDS - elapsed) * 1000);
+      return;
+    }
+
+    recordingRef.current = null;
+    clearTimeout(recordLimitRef.current);
+
+    try {
+      const clip = await (await recording).stop();
+      const video = videoRef.current;
+      setPendingClip({
+        url: URL.createObjectURL(clip.blob),
+        duration: clip.duration,
+        width: video?.videoWidth ?? 0,
+        height: video?.videoHeight ?? 0
+      });
+    } catch (error) {
+      console.error("Error recording clip:", error);
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  // In video mode a short tap latches recording on; holding records until release
+  const SHUTTER_TAP_MS = 300;
+
+  const handleShutterPointerDown = () => {
+    if (mode !== 'video') return;
+    shutterHoldRef.current = performance.now();
+    if (isRecording) {
+      shutterHoldRef.current = 0;
+      stopRecording();
+    } else {
+      takePhoto();
+    }
+  };
+
+  const handleShutterPointerUp = () => {
+    const heldSince = shutterHoldRef.current;
+    if (mode !== 'video' || !heldSince) return;
+    if (performance.now() - heldSince <= SHUTTER_TAP_MS) return;
+    if (recordingRef.current) {
+      stopRecording();
+    } else {
+      releasedEarlyRef.current = true;
+    }
+  };
+
+  // Keyboard presses only click; pointer presses were handled above
+  const handleShutterClick = () => {
+    if (mode !== 'video') {
+      takePhoto();
+    } else if (shutterHoldRef.current !== null) {
+      shutterHoldRef.current = null;
+    } else if (isRecording) {
+      stopRecording();
+    } else {
+      takePhoto();
+    }
+  };
+
+  useEffect(() => {
+    if (!isRecording) {
+      setRecordSeconds(0);
+      return;
+    }
+    const interval = setInterval(() => setRecordSeconds((performance.now() - recordStartRef.current) / 1000), 200);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  const handleClipConfirm = (range: ClipRange) => {
+    if (!pendingClip) return;
+    ejectMedia(pendingClip.url, 'video', { width: pendingClip.width, height: pendingClip.height }, range);
+    setPendingClip(null);
+  };
+
+  const handleClipDiscard = () => {
+    if (pendingClip) URL.revokeObjectURL(pendingClip.url);
+    setPendingClip(null);
+  };
+
+  const handlePendingDragEnd = async (id: string, x: number, y: number) => {
+    if (!pendingPhoto || pendingPhoto.id !== id) return;
+
+    const rotation = (Math.random() * 10 - 5);
+    const zIndex = maxZIndex + 1;
+
+    // Dropped in screen space; it lands on the board under the pointer
+    const point = toBoardPoint(x, y, viewRef.current);
+    const finalPhoto = {
+      ...pendingPhoto,
+      x: point.x,
+      y: point.y,
+      isEjecting: false,
+      isDeveloping: true,
+      isStaticNegative: false,
+      rotation: rotation,
+      zIndex: zIndex
+    };
+
+    if (user) {
+      try {
+        // Captures and their AI captions are screened before anyone else can see them
+        const flags = await screenCapture({ image: finalPhoto.mediaType === 'video' ? undefined : finalPhoto.dataUrl, caption: finalPhoto.caption });
+        const status = await savePhotoToRoom(room, { ...finalPhoto, flags });
+        if (status === 'pending') showWarning("IN REVIEW");
+      } catch (error) {
+        console.error("Error saving photo:", error);
+        alert("Failed to save photo to the cloud!");
+      }
+    } else {
+      setPhotos(prev => [...prev, finalPhoto]);
+      setTimeout(() => {
+        setPhotos(prev => prev.map(p => p.id === id ? { ...p, isDeveloping: false } : p));
+      }, 5200);
+
+      saveLocalPhoto(finalPhoto).catch(err => console.error("Error saving local photo:", err));
+    }
+
+    setMaxZIndex(prev => prev + 1);
+    setPendingPhoto(null);
+    announce("Developing");
+    setTimeout(() => announce(finalPhoto.mediaType === 'video' ? "Clip ready" : "Photo developed"), 5200);
+
+    // The next burst frame comes out once this one is off the camera
+    const next = ejectQueueRef.current.shift();
+    if (next) {
+      setState(prev => ({ ...prev, isCapturing: true }));
+      setTimeout(() => ejectMedia(next.url, 'photo', next.size), 600);
+    }
+  };
+
+  const handlePhotoDragEnd = (id: string, x: number, y: number) => {
+    const photo = photosRef.current.find(p => p.id === id);
+    if (!photo) return;
+
+    const moved = { ...photo, x, y, movedAt: Date.now() };
+    setPhotos(prev => prev.map(p => p.id === id ? moved : p));
+
+    if (user) {
+      movePhoto(moved);
+    } else {
+      updateLocalPhoto(id, { x, y, movedAt: moved.movedAt, zIndex: moved.zIndex });
+    }
+  };
+
+  const handlePhotoRotate = (id: string, rotation: number) => {
+    const photo = photosRef.current.find(p => p.id === id);
+    if (!photo) return;
+
+    const turned = { ...photo, rotation, movedAt: Date.now() };
+    setPhotos(prev => prev.map(p => p.id === id ? turned : p));
+
+    if (!user) {
+      updateLocalPhoto(id, { rotation, movedAt: turned.movedAt });
+      return;
+    }
+
+    // Held keys turn the card a step at a time; only where it stops is saved,
+    // along with wherever it has been moved to meanwhile
+    clearTimeout(rotationSaveTimersRef.current[id]);
+    rotationSaveTimersRef.current[id] = setTimeout(() => {
+      delete rotationSaveTimersRef.current[id];
+      const latest = photosRef.current.find(p => p.id === id);
+      if (latest) movePhoto(latest);
+    }, 400);
+  };
+
+  const handleNoteChange = (id: string, backNote: string) => {
+    setPhotos(prev => prev.map(p => p.id === id ? { ...p, backNote } : p));
 
-    if (isAiEnabled && type === 'photo') {
-      generateCaption(url).then(caption => {
-        setPendingPhoto(curr => {
-          if (curr && curr.id === newPhoto.id) {
-            return { ...curr, caption };
-          }
-          return curr;
-        });
-      });
+    if (!user) {
+      updateLocalPhoto(id, { backNote });
+      return;
     }
 
-    setTimeout(() => {
-      setState(prev => ({ ...prev, isCapturing: false }));
-      setIsRecording(false);
-    }, 500);
+    // Others see the text as it is typed; the database gets it once typing pauses
+    broadcast('NOTE', { photoId: id, userId: user.id, note: backNote });
 
-    setTimeout(() => {
-      setPendingPhoto(curr => curr ? { ...curr, isEjecting: false } : null);
-    }, 3000);
+    clearTimeout(noteSaveTimersRef.current[id]);
+    noteSaveTimersRef.current[id] = setTimeout(() => {
+      delete noteSaveTimersRef.current[id];
+      saveBackNote(id, backNote).catch(error => console.error("Error saving note:", error));
+    }, 800);
   };
 
-  const takePhoto = async () => {
-    if (pendingPhoto) return;
+  // Reactions and comments: the card on the board and its open thread both follow every change
+  const updateReaction = (photoId: string, userId: string, emoji: string, on: boolean) => {
+    setPhotos(prev => prev.map(p => p.id === photoId ? { ...p, reactions: applyReaction(p.reactions ?? {}, userId, emoji, on) } : p));
+    setThreads(prev => prev[photoId]
+      ? { ...prev, [photoId]: { ...prev[photoId], reactions: applyReaction(prev[photoId].reactions, userId, emoji, on) } }
+      : prev);
+  };
 
-    // Validate Room ID
-    if (!room.trim()) {
-      setWarningMsg("MISSING ID");
-      setIsSettingsOpen(true);
-      setTimeout(() => setWarningMsg(null), 2000);
-      return;
+  const addComment = (comment: PhotoComment) => {
+    setPhotos(prev => prev.map(p => p.id === comment.photoId ? { ...p, commentCount: (p.commentCount ?? 0) + 1 } : p));
+    setThreads(prev => {
+      const thread = prev[comment.photoId];
+      if (!thread || thread.comments.some(c => c.id === comment.id)) return prev;
+      return { ...prev, [comment.photoId]: { ...thread, comments: [...thread.comments, comment] } };
+    });
+  };
+
+  const removeComments = (photoId: string, ids: string[]) => {
+    setPhotos(prev => prev.map(p => p.id === photoId ? { ...p, commentCount: Math.max((p.commentCount ?? 0) - ids.length, 0) } : p));
+    setThreads(prev => prev[photoId]
+      ? { ...prev, [photoId]: { ...prev[photoId], comments: prev[photoId].comments.filter(c => !ids.includes(c.id)) } }
+      : prev);
+  };
+
+  const refreshPhotoSocial = async (photoId: string) => {
+    const isThreadLoaded = !!threadsRef.current[photoId];
+    if (!isThreadLoaded && !photosRef.current.some(p => p.id === photoId)) return;
+    try {
+      const [reactions, comments] = await Promise.all([
+        fetchReactions(photoId),
+        isThreadLoaded ? fetchComments(photoId) : null,
+      ]);
+      const commentCount = comments ? comments.length : await countComments(photoId);
+      setPhotos(prev => prev.map(p => p.id === photoId ? { ...p, reactions, commentCount } : p));
+      setThreads(prev => prev[photoId]
+        ? { ...prev, [photoId]: { reactions, comments: comments ?? prev[photoId].comments } }
+        : prev);
+    } catch (error) {
+      console.error("Error refreshing reactions and comments:", error);
     }
+  };
 
-    if (shotsLeft <= 0 || isReloading || !state.isPoweredOn) return;
+  const loadThread = (photoId: string) => {
+    if (requestedThreadsRef.current.has(photoId)) return;
+    requestedThreadsRef.current.add(photoId);
+    Promise.all([fetchReactions(photoId), fetchComments(photoId)])
+      .then(([reactions, comments]) => setThreads(prev => ({ ...prev, [photoId]: { reactions, comments } })))
+      .catch(error => {
+        requestedThreadsRef.current.delete(photoId);
+        console.error("Error loading comments:", error);
+      });
+  };
 
-    if (!videoRef.current || !canvasRef.current || state.isCapturing || isRecording) return;
+  const handleReact = async (photo: Photo, emoji: string) => {
+    if (!user) return;
+    const reactions = threads[photo.id]?.reactions ?? photo.reactions ?? {};
+    const on = !reactions[emoji]?.includes(user.id);
+    updateReaction(photo.id, user.id, emoji, on);
+
+    try {
+      await setReaction(photo.id, user.id, emoji, on);
+      if (!on) broadcast('UNREACT', { photoId: photo.id });
+    } catch (error) {
+      console.error("Error saving reaction:", error);
+      alert("Failed to save reaction!");
+      updateReaction(photo.id, user.id, emoji, !on);
+    }
+  };
 
-    const video = videoRef.current;
-    if (video.readyState < 2 || video.videoWidth === 0 || video.videoHeight === 0) return;
+  const handleComment = async (photoId: string, body: string, parentId?: string) => {
+    try {
+      const comment = await postComment(photoId, body, parentId, profile?.displayName);
+      addComment(comment);
+      return true;
+    } catch (error) {
+      console.error("Error posting comment:", error);
+      alert("Failed to post comment!");
+      return false;
+    }
+  };
 
-    // Broadcast Flash Event (only for photo?)
-    if (mode === 'photo' && channelRef.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'FLASH'
-      });
+  const handleDeleteComment = async (comment: PhotoComment) => {
+    try {
+      await deleteComment(comment.id);
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      alert("Failed to delete comment!");
+      return;
     }
+    const ids = commentWithReplies(threads[comment.photoId]?.comments ?? [comment], comment.id);
+    removeComments(comment.photoId, ids);
+    broadcast('UNCOMMENT', { photoId: comment.photoId });
+  };
 
-    if (mode === 'video') {
-      const stream = state.stream;
-      if (!stream) return;
+  // Only room members can react and comment. A booth is signed in as its host, so guests
+  // at it would stamp and write as them.
+  const social: PhotoSocial | undefined = user && isMember && !isKiosk ? {
+    userId: user.id,
+    threads,
+    loadThread,
+    react: handleReact,
+    comment: handleComment,
+    deleteComment: handleDeleteComment,
+  } : undefined;
+
+  const [isExporting, setIsExporting] = useState(false);
+
+  const runExport = async (task: () => Promise<void>) => {
+    if (isExporting) return;
+    setIsExporting(true);
+    try {
+      await task();
+    } catch (error) {
+      console.error("Export failed:", error);
+      alert("Export failed!");
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
-      setIsRecording(true);
-      playShutter(); // Start sound
+  const handleExportPhoto = (photo: Photo, side: 'front' | 'back') => runExport(async () => {
+    const canvas = await renderPolaroid(photo, side);
+    downloadBlob(await canvasToBlob(canvas), `polaroid-${photo.id.slice(0, 8)}-${side}.png`);
+  });
 
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'video/webm;codecs=vp8',
-        videoBitsPerSecond: 1000000 // 1 Mbps
-      });
+  // A room's board is only loaded around the view, so exports fetch the whole room
+  const exportablePhotos = () => isMember ? fetchAllPhotos(room) : Promise.resolve(photos);
 
-      mediaRecorderRef.current = mediaRecorder;
-      chunksRef.current = [];
+  const handleExportBoard = () => runExport(async () => {
+    const canvas = await renderBoard(await exportablePhotos(), CARD_WIDTH);
+    downloadBlob(await canvasToBlob(canvas), `board-${room || 'local'}.png`);
+  });
 
-      mediaRecorder.ondataavailable = (e) => {
-        if (e.data.size > 0) chunksRef.current.push(e.data);
-      };
+  const handleExportContactSheet = () => runExport(async () => {
+    downloadBlob(await exportContactSheetPdf(await exportablePhotos()), `contact-sheet-${room || 'local'}.pdf`);
+  });
 
-      mediaRecorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'video/webm' });
-        // Convert to Base64 Data URL for storage/compatibility
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          const base64data = reader.result as string;
-          ejectMedia(base64data, 'video');
-        };
-        reader.readAsDataURL(blob);
-      };
+  // Trash & Undo
+  const [undoToast, setUndoToast] = useState<{ message: string, undo: () => void } | null>(null);
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [trash, setTrash] = useState<Photo[]>([]);
+  const [isTrashLoading, setIsTrashLoading] = useState(false);
+
+  const showUndo = (message: string, undo: () => void) => {
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    setUndoToast({ message, undo });
+    undoTimerRef.current = setTimeout(() => setUndoToast(null), 6000);
+  };
 
-      mediaRecorder.start();
+  const broadcast = (event: string, payload: any) => {
+    channelRef.current?.send({ type: 'broadcast', event, payload });
+  };
 
-      setTimeout(() => {
-        if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
-          mediaRecorderRef.current.stop();
-        }
-      }, 3000);
+  // `ids` can name more photos than `restored` holds: restoring a room cleared from the
+  // board also brings back the ones that weren't loaded, which arrive as database changes
+  const handleRestore = async (restored: Photo[], ids = restored.map(p => p.id)) => {
+    try {
+      if (user) {
+        await restorePhotos(ids);
+      } else {
+        await Promise.all(ids.map(id => updateLocalPhoto(id, { deletedAt: undefined })));
+      }
+    } catch (error) {
+      console.error("Error restoring photos:", error);
+      alert("Failed to restore photos!");
       return;
     }
 
-    playShutter();
-    setState(prev => ({ ...prev, isCapturing: true }));
-    setShotsLeft(prev => prev - 1);
+    setPhotos(prev => [...prev.filter(p => !ids.includes(p.id)), ...restored.map(p => ({ ...p, deletedAt: undefined }))]);
+    setTrash(prev => prev.filter(p => !ids.includes(p.id)));
+    setUndoToast(null);
+  };
 
-    // Calculate flash burst position
-    if (state.isFlashOn) {
-      if (cameraBodyRef.current) {
-        const rect = cameraBodyRef.current.getBoundingClientRect();
-        const flashX = rect.left + (rect.width * 0.23);
-        const flashY = rect.top + (rect.height * 0.23);
-        setFlashBurstPos({ x: flashX, y: flashY });
-      }
+  const handleDeletePhoto = async (photo: Photo) => {
+    setPhotos(prev => prev.filter(p => p.id !== photo.id));
 
-      setShowPageFlash(true);
-      setTimeout(() => setShowPageFlash(false), 400);
+    try {
+      if (user) {
+        await trashPhotos([photo.id]);
+      } else {
+        await updateLocalPhoto(photo.id, { deletedAt: Date.now() });
+      }
+    } catch (error) {
+      console.error("Error deleting photo:", error);
+      alert("Failed to delete photo!");
+      setPhotos(prev => [...prev, photo]);
+      return;
     }
 
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    showUndo("Moved to trash", () => handleRestore([photo]));
+  };
 
-    const size = Math.min(canvas.width, canvas.height);
-    const startX = (canvas.width - size) / 2;
-    const startY = (canvas.height - size) / 2;
+  const handleLayersChange = async (id: string, layers: PhotoLayer[], offerUndo = true) => {
+    const previous = photosRef.current.find(p => p.id === id)?.layers ?? [];
+    setPhotos(prev => prev.map(p => p.id === id ? { ...p, layers } : p));
 
-    const squareCanvas = document.createElement('canvas');
-    squareCanvas.width = size;
-    squareCanvas.height = size;
-    const squareCtx = squareCanvas.getContext('2d');
+    try {
+      if (user) {
+        await saveLayers(id, layers);
+      } else {
+        await updateLocalPhoto(id, { layers });
+      }
+    } catch (error) {
+      console.error("Error saving decorations:", error);
+      alert("Failed to save decorations!");
+      setPhotos(prev => prev.map(p => p.id === id ? { ...p, layers: previous } : p));
+      return;
+    }
 
-    if (squareCtx) {
-      squareCtx.drawImage(canvas, startX, startY, size, size, 0, 0, size, size);
-      const dataUrl = squareCanvas.toDataURL('image/jpeg', 0.9);
+    if (offerUndo) {
+      showUndo("Decorations saved", () => {
+        setUndoToast(null);
+        handleLayersChange(id, previous, false);
+      });
+    }
+  };
 
-      const flash = document.getElementById('camera-flash');
-      if (flash && state.isFlashOn) {
-        flash.style.opacity = '1';
-        setTimeout(() => { flash.style.opacity = '0'; }, 100);
+  const handleClearBoard = async () => {
+    const cleared = photos;
+    let ids = cleared.map(p => p.id);
+
+    try {
+      if (user) {
+        if (!isRoomOwner) return;
+        ids = await clearRoom(room);
+      } else {
+        const deletedAt = Date.now();
+        await Promise.all(cleared.map(p => updateLocalPhoto(p.id, { deletedAt })));
       }
-
-      setTimeout(() => {
-        ejectMedia(dataUrl, 'photo');
-      }, 4000);
+    } catch (error) {
+      console.error("Error clearing board:", error);
+      alert("Failed to clear the board!");
+      return;
     }
+
+    if (ids.length === 0) return;
+    setPhotos([]);
+    showUndo(`Cleared ${ids.length} photo${ids.length === 1 ? '' : 's'}`, () => handleRestore(cleared, ids));
   };
 
-  const handlePendingDragEnd = async (id: string, x: number, y: number) => {
-    if (!pendingPhoto || pendingPhoto.id !== id) return;
+  const openTrash = async () => {
+    setIsTrashOpen(true);
+    setIsTrashLoading(true);
+    try {
+      setTrash(user ? await fetchTrash(room, user.id, isRoomOwner) : await loadLocalPhotos({ trashed: true }));
+    } catch (error) {
+      console.error("Error loading trash:", error);
+      setTrash([]);
+    } finally {
+      setIsTrashLoading(false);
+    }
+  };
 
-    const rotation = (Math.random() * 10 - 5);
-    const zIndex = maxZIndex + 1;
+  const handleDeleteForever = async (photo: Photo) => {
+    try {
+      if (user) {
+        await deletePhotoForever(photo);
+      } else {
+        await removeLocalPhoto(photo.id);
+      }
+      setTrash(prev => prev.filter(p => p.id !== photo.id));
+    } catch (error) {
+      console.error("Error deleting photo:", error);
+      alert("Failed to delete photo!");
+    }
+  };
 
-    if (user) {
-      const xPercent = x / window.innerWidth;
-      const yPercent = y / window.innerHeight;
-
-      const { error } = await supabase.from('photos').insert({
-        room_id: room,
-        data_url: pendingPhoto.dataUrl,
-        caption: pendingPhoto.caption,
-        x: xPercent,
-        y: yPercent,
-        rotation: rotation,
-        z_index: zIndex
-      });
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [reviewQueue, setReviewQueue] = useState<Photo[]>([]);
+  const [reviewNames, setReviewNames] = useState<Record<string, string>>({});
+  const [isReviewLoading, setIsReviewLoading] = useState(false);
+
+  const openReview = async () => {
+    setIsReviewOpen(true);
+    setIsReviewLoading(true);
+    try {
+      const pending = await fetchPendingPhotos(room);
+      setReviewQueue(pending);
+      setPendingCount(pending.length);
+      setReviewNames(await fetchDisplayNames([...new Set(pending.map(p => p.userId).filter((id): id is string => !!id))]));
+    } catch (error) {
+      console.error("Error loading photos to review:", error);
+      setReviewQueue([]);
+    } finally {
+      setIsReviewLoading(false);
+    }
+  };
 
-      if (error) {
-        console.error("Error saving photo:", error);
-        alert("Failed to save photo to the cloud!");
+  const handleReview = async (reviewed: Photo[], approve: boolean) => {
+    for (const photo of reviewed) {
+      try {
+        const result = await moderatePhoto(photo.id, approve);
+        setReviewQueue(prev => prev.filter(p => p.id !== photo.id));
+        setPendingCount(prev => Math.max(prev - 1, 0));
+        setPhotos(prev => approve || photo.userId === user?.id
+          ? prev.map(p => p.id === photo.id ? { ...p, status: result.status } : p)
+          : prev.filter(p => p.id !== photo.id));
+      } catch (error) {
+        console.error("Error reviewing photo:", error);
+        alert(`Failed to ${approve ? 'approve' : 'reject'} the photo!`);
+        return;
       }
-    } else {
-      const finalPhoto = {
-        ...pendingPhoto,
-        x: x,
-        y: y,
-        isEjecting: false,
-        isDeveloping: true,
-        isStaticNegative: false,
-        rotation: rotation,
-        zIndex: zIndex
-      };
-      setPhotos(prev => [...prev, finalPhoto]);
-      setTimeout(() => {
-        setPhotos(prev => prev.map(p => p.id === id ? { ...p, isDeveloping: false } : p));
-      }, 5200);
     }
+  };
 
-    setMaxZIndex(prev => prev + 1);
-    setPendingPhoto(null);
+  // Offer to merge the signed-out library into the room once signed in
+  const [localPhotoCount, setLocalPhotoCount] = useState(0);
+  const [isUploadingLocal, setIsUploadingLocal] = useState(false);
+  useEffect(() => {
+    if (user) countLocalPhotos().then(setLocalPhotoCount).catch(() => setLocalPhotoCount(0));
+  }, [user]);
+
+  const handleUploadLocal = async () => {
+    if (!user || isUploadingLocal) return;
+    if (!room.trim()) {
+      setWarningMsg("MISSING ID");
+      setTimeout(() => setWarningMsg(null), 2000);
+      return;
+    }
+    if (!isMember) {
+      setIsRoomSettingsOpen(true);
+      return;
+    }
+
+    setIsUploadingLocal(true);
+    try {
+      const { uploaded, skipped } = await uploadLocalPhotos(room);
+      alert(`Uploaded ${uploaded} local photo${uploaded === 1 ? '' : 's'} to ${room}${skipped ? ` (${skipped} already there)` : ''}.`);
+    } catch (error) {
+      console.error("Error uploading local photos:", error);
+      alert("Failed to upload local photos!");
+    } finally {
+      setIsUploadingLocal(false);
+      // Whatever made it into the room has left the library, even if a later one failed
+      countLocalPhotos().then(setLocalPhotoCount).catch(() => setLocalPhotoCount(0));
+    }
   };
 
-  const handleReload = () => {
+  // Loading a pack uses one from the inventory (a kiosk's come free) and switches to its film stock
+  const handleReload = async (nextPackId: string) => {
     if (isReloading) return;
+    setIsPackPickerOpen(false);
+    const pack = getFilmPack(nextPackId);
+
+    let next: ShotBudget;
+    if (user) {
+      try {
+        if (isKiosk) {
+          next = await loadKioskFilm(room, pack.id, false);
+        } else {
+          next = await loadFilmPack(room, pack.id);
+          fetchFilmInventory().then(setInventory).catch(() => { });
+        }
+      } catch (error: any) {
+        console.error("Error loading film pack:", error);
+        setWarningMsg(error?.message?.includes('limit') ? "LIMIT REACHED" : "NO FILM");
+        setTimeout(() => setWarningMsg(null), 2000);
+        return;
+      }
+    } else {
+      next = { ...budget, packId: pack.id, shotsLeft: pack.shots };
+      saveLocalBudget(next);
+    }
+
     setIsReloading(true);
     playReload();
 
     setTimeout(() => {
-      setShotsLeft(8);
+      setBudget(next);
+      setFilterId(pack.defaultFilterId);
       setIsReloading(false);
     }, 2000);
   };
 
+  // The kiosk's room, captions and branding win over whatever was set before it was locked,
+  // and the camera is always on
+  useEffect(() => {
+    if (!kiosk.enabled) return;
+    setRoom(kiosk.room);
+    setIsAiEnabled(kiosk.aiCaptions);
+    setCustomText(kiosk.customText);
+    setState(prev => prev.isPoweredOn ? prev : { ...prev, isPoweredOn: true });
+  }, [kiosk]);
+
+  const handleSaveKiosk = (config: KioskConfig) => {
+    setKiosk(config);
+    saveKioskConfig(config);
+    setIsKioskAdminOpen(false);
+    if (!config.enabled) return;
+    setIsSettingsOpen(false);
+    if (config.packId !== budget.packId) handleReload(config.packId);
+  };
+
+  // Between guests the booth tidies itself up behind the attract screen
+  const isKioskIdle = useIdle(kiosk.idleSeconds * 1000);
+  const showAttract = isKiosk && isKioskIdle && !isKioskAdminOpen && !isRecording && countdown === null;
+  useEffect(() => {
+    if (!showAttract) return;
+    setIsGalleryOpen(false);
+    setIsSettingsOpen(false);
+    setIsPackPickerOpen(false);
+    setMode('photo');
+    setSelfTimer(0);
+    setView(homeView());
+    handleClipDiscard();
+    // A card nobody pulled off develops where it was left
+    if (pendingPhoto && !pendingPhoto.isEjecting) {
+      handlePendingDragEnd(pendingPhoto.id, pendingPhoto.x - 20, pendingPhoto.y);
+    }
+    // The next guest gets a fresh roll and their own shots
+    if (user && isMember) {
+      loadKioskFilm(room, kiosk.packId, true)
+        .then(setBudget)
+        .catch(err => console.error("Error loading kiosk film:", err));
+    }
+  }, [showAttract]);
+
+  // The QR link opens just that photo, so a guest who scans it never gets into a private room
+  const showKioskQr = isKiosk && kiosk.showQr && isMember;
+
+  // Every print at a booth belongs to the host's account, so guests can't edit or bin them
+  const canEditPhoto = (photo: Photo) => !isKiosk && (!user || photo.userId === user.id);
+
+  const photoQrUrl = (photo: Photo) => showKioskQr && photo.shareToken ? buildPhotoLink(room, photo.id, photo.shareToken) : undefined;
+
+  // Open a linked photo once we're in its room, or straight away with its token
+  const canOpenLinkedPhoto = !!linkedPhotoId && (isMember || !!linkShareRef.current);
+  useEffect(() => {
+    if (canOpenLinkedPhoto) setIsGalleryOpen(true);
+  }, [linkedPhotoId, canOpenLinkedPhoto]);
+
+  const handleLinkedPhotoClose = () => {
+    setLinkedPhotoId(null);
+    clearPhotoFromUrl();
+  };
+
+  // A running countdown (the self-timer, or the pause between booth frames) can always be called off
+  const isShutterDisabled = countdown === null
+    && (!state.permissionGranted || state.isCapturing || !!pendingPhoto || shotsLeft <= 0 || isReloading || !state.isPoweredOn);
+
+  // Film left is read out as it's spent and reloaded, but not as the counter first loads
+  const announcedShotsRef = useRef(shotsLeft);
+  useEffect(() => {
+    if (announcedShotsRef.current === shotsLeft) return;
+    announcedShotsRef.current = shotsLeft;
+    if (!state.isPoweredOn) return;
+    announce(shotsLeft === 0 ? "Out of film. Press R to reload." : `${shotsLeft} ${shotsLeft === 1 ? 'shot' : 'shots'} left`);
+  }, [shotsLeft]);
+
+  const togglePower = () => {
+    if (isKiosk) return;
+    announce(state.isPoweredOn ? "Camera off" : "Camera on");
+    setState(prev => ({ ...prev, isPoweredOn: !prev.isPoweredOn }));
+  };
+
+  const toggleFlash = () => {
+    if (!state.isPoweredOn) return;
+    announce(state.isFlashOn ? "Flash off" : "Flash on");
+    setState(prev => ({ ...prev, isFlashOn: !prev.isFlashOn }));
+  };
+
+  // Space: shutter, P: power, F: flash, M: next capture mode, R: reload an empty camera.
+  // Typing never triggers them, and neither does anything behind an open dialog.
+  const handleShortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  handleShortcutRef.current = (e: KeyboardEvent) => {
+    if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (isAuthOpen || isRoomSettingsOpen || isCaptionSettingsOpen || isKioskAdminOpen || isPackPickerOpen
+      || isTrashOpen || isReviewOpen || isGalleryOpen || isDecorating || !!pendingClip || showAttract) return;
+
+    const target = e.target as HTMLElement;
+    if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+    switch (e.key.toLowerCase()) {
+      case ' ':
+        // Focused buttons and cards have their own use for space
+        if (target.closest('button, a, [tabindex]') || isShutterDisabled) return;
+        e.preventDefault();
+        handleShutterClick();
+        break;
+      case 'p':
+        togglePower();
+        break;
+      case 'f':
+        toggleFlash();
+        break;
+      case 'm': {
+        if (isRecording || state.isCapturing) return;
+        const next = CAPTURE_MODES[(CAPTURE_MODES.findIndex(m => m.id === mode) + 1) % CAPTURE_MODES.length];
+        setMode(next.id);
+        announce(`${next.label} mode`);
+        break;
+      }
+      case 'r':
+        if (!state.isPoweredOn || shotsLeft > 0 || isReloading) return;
+        if (isKiosk) {
+          handleReload(kiosk.packId);
+        } else {
+          setIsPackPickerOpen(true);
+        }
+        break;
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => handleShortcutRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Only cards near the view are in the DOM, so big rooms stay smooth
+  const drawRegion = visibleRegion(view, CARD_WIDTH);
+  const visiblePhotos = photos.filter(photo => cardIntersects(photo, drawRegion));
+
   return (
-    <div className="relative h-[100dvh] w-full bg-stone-900 overflow-hidden font-sans selection:bg-accent selection:text-white touch-none">
+    <div ref={rootRef} className="relative h-[100dvh] w-full bg-stone-900 overflow-hidden font-sans selection:bg-accent selection:text-white touch-none">
       <AuthModal
         isOpen={isAuthOpen}
         onClose={() => setIsAuthOpen(false)}
         onLoginSuccess={() => setIsAuthOpen(false)}
+        profile={user ? profile : null}
+        onProfileSaved={setProfile}
+      />
+
+      <RoomSettings
+        isOpen={isRoomSettingsOpen}
+        room={room}
+        roomInfo={roomInfo}
+        access={roomAccess}
+        isOwner={isRoomOwner}
+        userId={user?.id ?? null}
+        onClose={() => setIsRoomSettingsOpen(false)}
+        onJoin={handleJoinWithCode}
+        onCreate={handleCreateRoom}
+        onUpdate={handleUpdateRoom}
+        onKick={handleKickMember}
+        onSetModerator={handleSetModerator}
+      />
+
+      <CaptionSettings
+        isOpen={isCaptionSettingsOpen}
+        config={captionConfig}
+        canEdit={!user || isRoomOwner}
+        onClose={() => setIsCaptionSettingsOpen(false)}
+        onSave={handleSaveCaptionConfig}
+      />
+
+      <TrashBin
+        isOpen={isTrashOpen}
+        photos={trash}
+        isLoading={isTrashLoading}
+        onClose={() => setIsTrashOpen(false)}
+        onRestore={handleRestore}
+        onDeleteForever={handleDeleteForever}
+      />
+
+      <KioskAdmin
+        isOpen={isKioskAdminOpen}
+        config={kiosk}
+        isCaptionStyleFixed={isCaptionStyleFixed}
+        currentRoom={room}
+        isSignedIn={!!user}
+        onClose={() => setIsKioskAdminOpen(false)}
+        onSave={handleSaveKiosk}
+      />
+
+      {showAttract && (
+        <AttractScreen
+          title={(!kiosk.aiCaptions && kiosk.customText) || roomInfo?.title || 'Retrocam'}
+          onStart={() => setView(homeView())}
+        />
+      )}
+
+      <ModerationQueue
+        isOpen={isReviewOpen}
+        photos={reviewQueue}
+        isLoading={isReviewLoading}
+        authorName={(photo) => (photo.userId && reviewNames[photo.userId]) || null}
+        onClose={() => setIsReviewOpen(false)}
+        onReview={handleReview}
       />
 
+      {pendingClip && (
+        <ClipTrimmer
+          url={pendingClip.url}
+          duration={pendingClip.duration}
+          filterCss={filmStock.previewCss}
+          mirrored={isCaptureMirrored}
+          onConfirm={handleClipConfirm}
+          onDiscard={handleClipDiscard}
+        />
+      )}
+
+      {undoToast && (
+        <UndoToast
+          message={undoToast.message}
+          onUndo={undoToast.undo}
+          onDismiss={() => setUndoToast(null)}
+        />
+      )}
+
+      {user && !isKiosk && (
+        <PresenceRoster
+          participants={participants}
+          currentUserId={user.id}
+          onEditProfile={() => setIsAuthOpen(true)}
+        />
+      )}
+      <PresenceToast notices={presenceNotices} />
+
+      <div className="sr-only" role="status" aria-live="polite">
+        {announcements.map(a => <p key={a.id}>{a.message}</p>)}
+      </div>
+
       {/* Flash Burst Effect */}
       {showPageFlash && (
         <div
@@ -604,8 +2040,14 @@ function App() {
 
       <canvas ref={canvasRef} className="hidden" />
 
-      {/* LAYER 1: Backgrounds */}
-      <div className="absolute inset-0 z-0 pointer-events-none">
+      {/* LAYER 1: Backgrounds (drag here to pan the board) */}
+      <div
+        className="absolute inset-0 z-0 cursor-grab active:cursor-grabbing"
+        onPointerDown={handleBoardPointerDown}
+        onPointerMove={handleBoardPointerMove}
+        onPointerUp={handleBoardPointerUp}
+        onPointerCancel={handleBoardPointerUp}
+      >
         <div
           className="absolute inset-0 bg-cover bg-center bg-no-repeat"
           style={{ backgroundImage: "url('/bg.png')" }}
@@ -634,6 +2076,11 @@ function App() {
               setIsDraggingPending(false);
               handlePendingDragEnd(id, (pendingPhoto.x - 20) + x, pendingPhoto.y + y);
             }}
+            captionOptions={isAiEnabled && pendingPhoto.mediaType !== 'video' ? captionOptions : undefined}
+            isCaptionLoading={isCaptionLoading}
+            onPickCaption={handlePickCaption}
+            onRegenerateCaption={handleRegenerateCaption}
+            qrUrl={photoQrUrl(pendingPhoto)}
             className={pendingPhoto.isEjecting ? "animate-eject" : ""}
           />
 
@@ -667,17 +2114,23 @@ function App() {
             </div>
           </div>
 
-          <div ref={cameraBodyRef} className="relative w-[85vw] max-w-[360px] select-none pointer-events-auto mt-2 lg:mt-0">
+          <div ref={cameraBodyRef} role="group" aria-label="Camera" className="relative w-[85vw] max-w-[360px] select-none pointer-events-auto mt-2 lg:mt-0">
             <img
               src="https://www.bubbbly.com/assets/retro-camera.webp"
-              alt="Retro Camera"
+              alt=""
               className="w-full h-auto drop-shadow-2xl relative pointer-events-none"
             />
-            <div
-              className={`absolute z-40 cursor-pointer group ${!state.isPoweredOn ? 'pointer-events-none opacity-50' : ''}`}
+            <button
+              type="button"
+              role="switch"
+              aria-checked={state.isFlashOn}
+              aria-label="Flash"
+              aria-keyshortcuts="F"
+              disabled={!state.isPoweredOn}
+              className={`absolute z-40 cursor-pointer group rounded-xl focus:outline-none focus-visible:ring-2 focus-visible:ring-accent ${!state.isPoweredOn ? 'pointer-events-none opacity-50' : ''}`}
               style={{ top: '13.5%', left: '14.5%', width: '19%', height: '19%' }}
-              onClick={() => state.isPoweredOn && setState(prev => ({ ...prev, isFlashOn: !prev.isFlashOn }))}
-              title="Toggle Flash"
+              onClick={toggleFlash}
+              title="Toggle Flash (F)"
             >
               <div className={`relative w-full h-full rounded-xl overflow-hidden transition-all duration-500 ${state.isFlashOn
                 ? 'shadow-[inset_0_0_15px_rgba(255,255,255,0.4)]'
@@ -702,24 +2155,38 @@ function App() {
                 <div className="absolute inset-0 bg-gradient-to-tr from-white/10 via-transparent to-transparent opacity-30" />
                 <div id="camera-flash" className="absolute inset-0 bg-white opacity-0 pointer-events-none transition-opacity duration-100 mix-blend-hard-light" />
               </div>
-            </div>
+            </button>
 
-            <div
-              className="absolute w-[30%] aspect-square rounded-full bg-black overflow-hidden shadow-[inset_0_10px_25px_rgba(0,0,0,0.8)] ring-4 ring-[#111] cursor-pointer group"
+            <button
+              type="button"
+              role="switch"
+              aria-checked={state.isPoweredOn}
+              aria-label="Camera power"
+              aria-keyshortcuts="P"
+              disabled={isKiosk}
+              className="absolute w-[30%] aspect-square rounded-full bg-black overflow-hidden shadow-[inset_0_10px_25px_rgba(0,0,0,0.8)] ring-4 ring-[#111] focus-visible:ring-accent focus:outline-none cursor-pointer disabled:cursor-default group"
               style={{
                 top: '40%',
                 left: '47%'
               }}
-              onClick={() => setState(prev => ({ ...prev, isPoweredOn: !prev.isPoweredOn }))}
-              title={state.isPoweredOn ? "Turn Off" : "Turn On"}
+              onClick={togglePower}
+              title={isKiosk ? undefined : state.isPoweredOn ? "Turn Off (P)" : "Turn On (P)"}
             >
               <video
                 ref={videoRef}
                 autoPlay
                 playsInline
                 muted
-                className={`w-full h-full object-cover transform scale-[1.35] pointer-events-none transition-opacity duration-700 ${state.isPoweredOn ? 'opacity-100' : 'opacity-0'}`}
+                className={`w-full h-full object-cover pointer-events-none transition-opacity duration-700 ${state.isPoweredOn ? 'opacity-100' : 'opacity-0'}`}
+                style={{ filter: filmStock.previewCss || undefined, transform: `scale(${isPreviewMirrored ? -1.35 : 1.35}, 1.35)` }}
               />
+              {/* Film Preview Vignette */}
+              {state.isPoweredOn && !!filmStock.vignette && (
+                <div
+                  className="absolute inset-0 z-10 pointer-events-none"
+                  style={{ background: `radial-gradient(circle, transparent 45%, rgba(0,0,0,${filmStock.vignette}) 100%)` }}
+                />
+              )}
               <div
                 className={`absolute inset-0 z-20 pointer-events-none transition-all duration-700 ease-in-out flex items-center justify-center`}
                 style={{
@@ -737,20 +2204,27 @@ function App() {
               {isRecording && (
                 <div className="absolute top-[15%] right-[15%] z-30 flex items-center gap-2 pointer-events-none">
                   <div className="w-2 h-2 bg-red-600 rounded-full animate-pulse shadow-[0_0_8px_rgba(220,38,38,0.8)]" />
-                  <span className="text-red-600 font-mono text-[10px] font-bold tracking-widest drop-shadow-md">REC</span>
+                  <span className="text-red-600 font-mono text-[10px] font-bold tracking-widest drop-shadow-md">
+                    REC {Math.max(0, Math.ceil(videoSettings.maxSeconds - recordSeconds))}s
+                  </span>
                 </div>
               )}
-            </div>
+            </button>
 
             <button
-              onClick={takePhoto}
-              disabled={!state.permissionGranted || state.isCapturing || !!pendingPhoto || shotsLeft <= 0 || isReloading || !state.isPoweredOn}
-              className={`absolute w-[15%] aspect-square rounded-full focus:outline-none group transition-all z-50 ${!!pendingPhoto || shotsLeft <= 0 || isReloading || !state.isPoweredOn ? 'cursor-not-allowed' : 'cursor-pointer active:scale-95'}`}
+              onClick={handleShutterClick}
+              onPointerDown={handleShutterPointerDown}
+              onPointerUp={handleShutterPointerUp}
+              onPointerLeave={handleShutterPointerUp}
+              disabled={isShutterDisabled}
+              className={`absolute w-[15%] aspect-square rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-accent group transition-all z-50 ${!!pendingPhoto || shotsLeft <= 0 || isReloading || !state.isPoweredOn ? 'cursor-not-allowed' : 'cursor-pointer active:scale-95'}`}
               style={{
                 top: '48%',
                 left: '18%'
               }}
-              aria-label="Take Photo"
+              aria-label={mode === 'video' ? (isRecording ? "Stop Recording" : "Record Clip") : "Take Photo"}
+              aria-keyshortcuts="Space"
+              title="Shutter (Space)"
             >
               <div className={`w-full h-full rounded-full transition-colors duration-200 ${!!pendingPhoto || shotsLeft <= 0 || isReloading || !state.isPoweredOn ? '' : 'hover:bg-white/10 active:bg-white/20'}`} />
             </button>
@@ -758,18 +2232,41 @@ function App() {
             <div
               className="absolute flex flex-col items-center justify-center pointer-events-none"
               style={{ top: '12%', left: '50%', transform: 'translateX(-50%)' }}
+              // Spoken through the live region as it changes; read as one phrase when browsed to
+              role="img"
+              aria-label={countdown !== null ? `Timer: ${countdown}` : state.isPoweredOn ? `${shotsLeft} shots left` : 'Shot counter off'}
             >
               <div className="bg-[#1a1a1a] border-2 border-[#333] rounded px-2 py-1 shadow-[inset_0_2px_5px_rgba(0,0,0,0.8)]">
-                <span className={`font-mono font-bold text-lg tracking-widest ${shotsLeft === 0 ? 'text-red-500 animate-pulse' : state.isPoweredOn ? 'text-[#a3d9a5]' : 'text-[#a3d9a5]/20'}`}>
-                  {state.isPoweredOn ? shotsLeft : '--'}
-                </span>
+                {countdown !== null ? (
+                  <span className="font-mono font-bold text-lg tracking-widest text-amber-400 animate-pulse">{countdown}</span>
+                ) : (
+                  <span className={`font-mono font-bold text-lg tracking-widest ${shotsLeft === 0 ? 'text-red-500 animate-pulse' : state.isPoweredOn ? 'text-[#a3d9a5]' : 'text-[#a3d9a5]/20'}`}>
+                    {state.isPoweredOn ? shotsLeft : '--'}
+                  </span>
+                )}
               </div>
-              <span className="text-[8px] text-white/40 font-sans mt-1 tracking-wider">SHOTS</span>
+              <span className="text-[8px] text-white/40 font-sans mt-1 tracking-wider" title={`${filmPack.name} pack`}>{countdown !== null ? 'TIMER' : 'SHOTS'}</span>
             </div>
 
-            {state.isPoweredOn && shotsLeft === 0 && !isReloading && (
+            {state.isPoweredOn && cameras.length > 1 && (
+              <button
+                onClick={handleFlipCamera}
+                disabled={isRecording}
+                className="absolute z-40 w-8 h-8 rounded-full bg-black/40 border border-white/10 text-white/60 hover:text-white hover:bg-black/60 flex items-center justify-center transition-colors disabled:opacity-40"
+                style={{ top: '13%', right: '16%' }}
+                title="Switch camera"
+                aria-label="Switch camera"
+              >
+                <i className="fas fa-sync-alt text-xs" />
+              </button>
+            )}
+
+            {state.isPoweredOn && shotsLeft === 0 && !isReloading && !isPackPickerOpen && (
               <button
-                onClick={handleReload}
+                // The booth always loads the film it was set up with
+                onClick={() => isKiosk ? handleReload(kiosk.packId) : setIsPackPickerOpen(true)}
+                aria-keyshortcuts="R"
+                title="Reload (R)"
                 className="absolute z-50 bg-red-600 hover:bg-red-500 text-white font-fredericka text-sm px-3 py-1 rounded shadow-lg animate-bounce cursor-pointer pointer-events-auto tracking-widest"
                 style={{ top: '25%', left: '50%', transform: 'translateX(-50%)' }}
               >
@@ -777,6 +2274,14 @@ function App() {
               </button>
             )}
 
+            {isPackPickerOpen && (
+              <FilmPackPicker
+                inventory={user ? inventory : null}
+                onPick={handleReload}
+                onClose={() => setIsPackPickerOpen(false)}
+              />
+            )}
+
             {isReloading && (
               <div className="absolute inset-0 flex items-center justify-center z-50 bg-black/20 backdrop-blur-[1px] rounded-[3rem]">
                 <div className="text-white font-mono text-sm animate-pulse">RELOADING...</div>
@@ -792,30 +2297,71 @@ function App() {
         </div>
 
         <div className="w-full lg:w-[60%] h-[45%] lg:h-full relative pointer-events-none">
-          {/* Gallery Zone - Photos moved to global layer */}
+          {/* Gallery Zone - Photos live on the board layer unless the gallery is open */}
+          {isGalleryOpen && (
+            <Gallery
+              room={isMember || canOpenLinkedPhoto ? room : null}
+              localPhotos={user ? [] : photos}
+              social={social}
+              linkedPhotoId={linkedPhotoId}
+              onLinkedPhotoClose={handleLinkedPhotoClose}
+              onClose={() => setIsGalleryOpen(false)}
+            />
+          )}
         </div>
       </div>
 
-      {/* LAYER 3.5: Saved Photos (Global Layer) */}
-      <div className="absolute inset-0 z-30 w-full h-full pointer-events-none overflow-hidden">
-        {photos.map((photo) => (
-          <div key={photo.id} className="pointer-events-auto">
-            <Polaroid
-              photo={photo}
-              onFocus={() => bringToFront(photo.id)}
-              onDragEnd={() => { }}
-            />
-          </div>
-        ))}
+      {/* LAYER 3.5: Saved Photos (Global Layer), on the board as seen through our view */}
+      <div className={`absolute inset-0 z-30 w-full h-full pointer-events-none overflow-hidden ${isGalleryOpen ? 'hidden' : ''}`}>
+        <div
+          className="absolute left-0 top-0 origin-top-left border border-dashed border-white/10"
+          style={{
+            width: BOARD_WIDTH,
+            height: BOARD_HEIGHT,
+            transform: `scale(${view.zoom}) translate(${-view.x}px, ${-view.y}px)`
+          }}
+        >
+          {visiblePhotos.map((photo) => (
+            <div key={photo.id} className="pointer-events-auto">
+              <Polaroid
+                photo={photo}
+                size="board"
+                zoom={view.zoom}
+                onFocus={() => bringToFront(photo.id)}
+                onDragEnd={handlePhotoDragEnd}
+                onRotate={handlePhotoRotate}
+                onNoteChange={canEditPhoto(photo) ? handleNoteChange : undefined}
+                onLayersChange={canEditPhoto(photo) ? handleLayersChange : undefined}
+                onDecoratingChange={setIsDecorating}
+                isNoteBeingTyped={!!typingNotes[photo.id]}
+                social={social}
+                onExport={handleExportPhoto}
+                onDelete={canEditPhoto(photo) ? handleDeletePhoto : undefined}
+                qrUrl={photoQrUrl(photo)}
+              />
+            </div>
+          ))}
+        </div>
       </div>
 
+      {!isGalleryOpen && (!isSettingsOpen || window.innerWidth >= 1024) && (
+        <BoardMinimap
+          photos={photos}
+          view={view}
+          onNavigate={(point) => setView(prev => centerViewOn(prev, point))}
+          onZoom={(factor) => setView(prev => zoomViewAt(prev, window.innerWidth / 2, window.innerHeight / 2, factor))}
+          onHome={() => setView(homeView())}
+          onOpenGallery={() => setIsGalleryOpen(true)}
+        />
+      )}
+
       {/* LAYER 4: Overlay UI */}
       <div className="absolute inset-0 z-50 pointer-events-none flex flex-col justify-end p-4 lg:p-6">
 
         {/* Cursor Overlay */}
-        <CursorOverlay cursors={cursors} />
+        <CursorOverlay cursors={cursors} participants={participants} view={view} />
 
-        <div className="absolute top-4 right-4 flex flex-col items-end gap-2 pointer-events-auto lg:static lg:w-full lg:flex-row lg:justify-between lg:items-end lg:gap-0" onMouseMove={handleMouseMove}>
+        <div className="absolute top-4 right-4 flex flex-col items-end gap-2 pointer-events-auto lg:static lg:w-full lg:flex-row lg:justify-between lg:items-end lg:gap-0">
           <button
             onClick={() => setIsSettingsOpen(!isSettingsOpen)}
             className="w-10 h-10 rounded-full bg-black/40 backdrop-blur-md border border-white/10 text-white/70 hover:text-white hover:bg-white/10 flex items-center justify-center transition-all"
@@ -825,69 +2371,280 @@ function App() {
 
           <div className={`${isSettingsOpen ? 'flex' : 'hidden'} lg:flex flex-col lg:flex-row bg-[#151515] lg:bg-black/40 backdrop-blur-xl p-5 lg:p-2 rounded-2xl lg:rounded-xl border border-white/10 gap-5 lg:gap-4 shadow-2xl w-[280px] lg:w-auto mt-2 lg:mt-0 origin-top-right transition-all`}>
 
-            {/* Login Button */}
-            <button
-              onClick={() => user ? supabase.auth.signOut() : setIsAuthOpen(true)}
-              className="w-full lg:w-auto px-4 py-3 lg:py-1 bg-white/5 lg:bg-white/10 hover:bg-white/10 lg:hover:bg-white/20 rounded-xl lg:rounded text-white/90 font-mono text-xs flex items-center justify-center gap-3 lg:gap-2 transition-all border border-white/5 lg:border-transparent"
-            >
-              <i className={`fas ${user ? 'fa-sign-out-alt' : 'fa-user'}`} />
-              {user ? 'LOGOUT' : 'LOGIN'}
-            </button>
+            {/* Login Button, or the way back into the booth's setup */}
+            {isKiosk ? (
+              <button
+                onClick={() => setIsKioskAdminOpen(true)}
+                className="w-full lg:w-auto px-4 py-3 lg:py-1 bg-white/5 lg:bg-white/10 hover:bg-white/10 lg:hover:bg-white/20 rounded-xl lg:rounded text-white/90 font-mono text-xs flex items-center justify-center gap-3 lg:gap-2 transition-all border border-white/5 lg:border-transparent"
+                title="Kiosk admin"
+              >
+                <i className="fas fa-lock" />
+                ADMIN
+              </button>
+            ) : (
+              <button
+                onClick={() => user ? supabase.auth.signOut() : setIsAuthOpen(true)}
+                className="w-full lg:w-auto px-4 py-3 lg:py-1 bg-white/5 lg:bg-white/10 hover:bg-white/10 lg:hover:bg-white/20 rounded-xl lg:rounded text-white/90 font-mono text-xs flex items-center justify-center gap-3 lg:gap-2 transition-all border border-white/5 lg:border-transparent"
+              >
+                <i className={`fas ${user ? 'fa-sign-out-alt' : 'fa-user'}`} />
+                {user ? 'LOGOUT' : 'LOGIN'}
+              </button>
+            )}
 
             {/* Switches Group */}
             <div className="flex items-center justify-between px-4 py-3 lg:p-0 bg-white/5 lg:bg-transparent rounded-xl lg:rounded-none border border-white/5 lg:border-none lg:gap-4">
               <RetroSwitch isOn={state.isFlashOn} onToggle={() => setState(prev => ({ ...prev, isFlashOn: !prev.isFlashOn }))} label="FLASH" />
+              {!isKiosk && (
+                <>
+                  <div className="w-px h-8 bg-white/10 lg:hidden" />
+                  <div className="flex items-end gap-1">
+                    <RetroSwitch isOn={isAiEnabled} onToggle={() => setIsAiEnabled(!isAiEnabled)} label="AI" />
+                    <button
+                      onClick={() => setIsCaptionSettingsOpen(true)}
+                      className="w-5 h-6 text-white/40 hover:text-white transition-colors"
+                      title="Caption Settings"
+                    >
+                      <i className="fas fa-sliders-h text-[10px]" />
+                    </button>
+                  </div>
+                </>
+              )}
               <div className="w-px h-8 bg-white/10 lg:hidden" />
-              <RetroSwitch isOn={isAiEnabled} onToggle={() => setIsAiEnabled(!isAiEnabled)} label="AI" />
+              <div className="flex flex-col items-center gap-1">
+                <span className="font-mono text-[10px] text-gray-300 uppercase tracking-widest">MODE</span>
+                <select
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as CaptureMode)}
+                  disabled={isRecording || state.isCapturing}
+                  className="bg-transparent border-b border-white/20 text-white font-mono text-xs py-0.5 outline-none focus:border-accent uppercase"
+                  title="Capture mode (M)"
+                  aria-label="Capture mode"
+                  aria-keyshortcuts="M"
+                >
+                  {CAPTURE_MODES.map(m => (
+                    <option key={m.id} value={m.id} className="bg-gray-900">{m.label}</option>
+                  ))}
+                </select>
+              </div>
               <div className="w-px h-8 bg-white/10 lg:hidden" />
-              <RetroSwitch
-                isOn={mode === 'video'}
-                onToggle={() => setMode(prev => prev === 'photo' ? 'video' : 'photo')}
-                label={mode === 'video' ? "VIDEO" : "PHOTO"}
-                onLabel=""
-                offLabel=""
-              />
+              <div className="flex flex-col items-center gap-1">
+                <span className="font-mono text-[10px] text-gray-300 uppercase tracking-widest">TIMER</span>
+                <select
+                  value={selfTimer}
+                  onChange={(e) => setSelfTimer(Number(e.target.value))}
+                  className="bg-transparent border-b border-white/20 text-white font-mono text-xs py-0.5 outline-none focus:border-accent uppercase"
+                  title="Self-timer"
+                >
+                  {SELF_TIMER_OPTIONS.map(seconds => (
+                    <option key={seconds} value={seconds} className="bg-gray-900">{seconds ? `${seconds}S` : 'Off'}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="w-px h-8 bg-white/10 lg:hidden" />
+              <FilterDial value={filterId} onChange={setFilterId} />
             </div>
 
-            {/* Inputs Group */}
-            <div className="flex flex-col lg:flex-row gap-4 lg:gap-2 lg:items-center">
+            {/* Camera Group */}
+            {!isKiosk && (
+              <div className="flex items-center justify-between lg:justify-start gap-3 px-2 lg:px-0 lg:border-l lg:border-white/10 lg:pl-3">
+                {cameras.length > 1 && (
+                  <select
+                    value={activeCamera?.deviceId ?? ''}
+                    onChange={(e) => updateCameraPrefs({ deviceId: e.target.value })}
+                    disabled={isRecording}
+                    className="bg-transparent border-b border-white/20 text-white font-mono text-sm lg:text-xs py-1 outline-none focus:border-accent w-24 truncate"
+                    title="Camera"
+                  >
+                    {cameras.map(camera => (
+                      <option key={camera.deviceId} value={camera.deviceId} className="bg-gray-900">{camera.label}</option>
+                    ))}
+                  </select>
+                )}
+                <span className="text-white/40 font-mono text-[10px] tracking-widest">MIRROR</span>
+                <RetroSwitch isOn={cameraPrefs.mirrorPreview} onToggle={() => updateCameraPrefs({ mirrorPreview: !cameraPrefs.mirrorPreview })} label="VIEW" />
+                <RetroSwitch isOn={cameraPrefs.mirrorCapture} onToggle={() => updateCameraPrefs({ mirrorCapture: !cameraPrefs.mirrorCapture })} label="PRINT" />
+              </div>
+            )}
 
-              {/* Room Input */}
+            {/* Video Group */}
+            {mode === 'video' && (
               <div className="flex items-center justify-between lg:justify-start gap-3 px-2 lg:px-0 lg:border-l lg:border-white/10 lg:pl-3">
-                <span className="text-white/40 font-mono text-[10px] tracking-widest">ROOM</span>
-                <input
-                  type="text"
-                  value={room}
-                  onChange={(e) => setRoom(e.target.value)}
-                  placeholder="ID"
-                  className="bg-transparent border-b border-white/20 text-white font-mono text-sm lg:text-xs px-2 py-1 outline-none focus:border-accent w-28 lg:w-20 text-right lg:text-center uppercase placeholder:text-white/20"
-                  maxLength={10}
-                />
+                <span className="text-white/40 font-mono text-[10px] tracking-widest">CLIP</span>
+                <select
+                  value={videoSettings.maxSeconds}
+                  onChange={(e) => updateVideoSettings({ maxSeconds: Number(e.target.value) })}
+                  disabled={isRecording}
+                  className="bg-transparent border-b border-white/20 text-white font-mono text-sm lg:text-xs py-1 outline-none focus:border-accent"
+                  title="Longest clip"
+                >
+                  {CLIP_LIMITS.map(limit => (
+                    <option key={limit} value={limit} className="bg-gray-900">{limit}S</option>
+                  ))}
+                </select>
+                <RetroSwitch isOn={videoSettings.withAudio} onToggle={() => updateVideoSettings({ withAudio: !videoSettings.withAudio })} label="MIC" />
               </div>
+            )}
 
-              {/* Custom Text Input */}
+            {/* Caption Style Group */}
+            {isAiEnabled && !isKiosk && (
               <div className="flex items-center justify-between lg:justify-start gap-3 px-2 lg:px-0 lg:border-l lg:border-white/10 lg:pl-3">
-                <span className="text-white/40 font-mono text-[10px] tracking-widest">TEXT</span>
-                <input
-                  type="text"
-                  value={customText}
-                  onChange={(e) => setCustomText(e.target.value)}
-                  disabled={isAiEnabled}
-                  placeholder={isAiEnabled ? "AI AUTO" : "CUSTOM..."}
-                  className={`bg-transparent border-b border-white/20 text-white font-mono text-sm lg:text-xs px-2 py-1 outline-none focus:border-accent w-36 lg:w-32 text-right lg:text-left placeholder:text-white/20 transition-opacity ${isAiEnabled ? 'opacity-50 cursor-not-allowed' : ''}`}
-                  maxLength={20}
-                />
+                <span className="text-white/40 font-mono text-[10px] tracking-widest">STYLE</span>
+                <div className="flex gap-2">
+                  <select
+                    value={captionStyle.persona}
+                    onChange={(e) => updateCaptionStyle({ persona: e.target.value as CaptionPersona })}
+                    disabled={isCaptionStyleFixed}
+                    className="bg-transparent border-b border-white/20 text-white font-mono text-sm lg:text-xs py-1 outline-none focus:border-accent uppercase disabled:opacity-40"
+                    title={isCaptionStyleFixed ? "Local captions have one style" : "Caption persona"}
+                  >
+                    {CAPTION_PERSONAS.map(p => (
+                      <option key={p.id} value={p.id} className="bg-gray-900">{p.label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={captionStyle.language}
+                    onChange={(e) => updateCaptionStyle({ language: e.target.value })}
+                    disabled={isCaptionStyleFixed}
+                    className="bg-transparent border-b border-white/20 text-white font-mono text-sm lg:text-xs py-1 outline-none focus:border-accent uppercase w-20 disabled:opacity-40"
+                    title={isCaptionStyleFixed ? "Local captions are English only" : "Caption language"}
+                  >
+                    {CAPTION_LANGUAGES.map(language => (
+                      <option key={language} value={language} className="bg-gray-900">{language}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={captionStyle.maxWords}
+                    onChange={(e) => updateCaptionStyle({ maxWords: Number(e.target.value) })}
+                    className="bg-transparent border-b border-white/20 text-white font-mono text-sm lg:text-xs py-1 outline-none focus:border-accent"
+                    title="Maximum caption length"
+                  >
+                    {CAPTION_LENGTHS.map(length => (
+                      <option key={length} value={length} className="bg-gray-900">{length}W</option>
+                    ))}
+                  </select>
+                </div>
               </div>
-            </div>
+            )}
 
-            {/* Reset Button */}
-            <button
-              onClick={() => setPhotos([])}
-              className="w-full lg:w-auto px-4 py-3 lg:py-1 bg-red-500/10 hover:bg-red-500/20 text-red-400 hover:text-red-300 border border-red-500/20 rounded-xl lg:rounded transition-colors font-fredericka text-sm lg:text-base tracking-widest uppercase"
-              title="Reset Photos"
-            >
-              Reset
-            </button>
+            {!isKiosk && (
+              <>
+                {/* Inputs Group */}
+                <div className="flex flex-col lg:flex-row gap-4 lg:gap-2 lg:items-center">
+
+                  {/* Room Input */}
+                  <div className="flex items-center justify-between lg:justify-start gap-3 px-2 lg:px-0 lg:border-l lg:border-white/10 lg:pl-3">
+                    <span className="text-white/40 font-mono text-[10px] tracking-widest">ROOM</span>
+                    <input
+                      type="text"
+                      value={roomDraft}
+                      onChange={(e) => setRoomDraft(e.target.value)}
+                      onBlur={() => setRoom(roomDraft)}
+                      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                      placeholder="ID"
+                      className="bg-transparent border-b border-white/20 text-white font-mono text-sm lg:text-xs px-2 py-1 outline-none focus:border-accent w-28 lg:w-20 text-right lg:text-center uppercase placeholder:text-white/20"
+                      maxLength={10}
+                      title={roomInfo?.title ?? undefined}
+                    />
+                    <button
+                      onClick={() => setIsRoomSettingsOpen(true)}
+                      className={`w-5 h-6 transition-colors ${roomAccess === 'code-required' ? 'text-accent' : 'text-white/40 hover:text-white'}`}
+                      title="Room Settings & Invites"
+                    >
+                      <i className={`fas ${roomInfo?.visibility === 'private' || roomAccess === 'code-required' ? 'fa-lock' : 'fa-users'} text-[10px]`} />
+                    </button>
+                  </div>
+
+                  {/* Custom Text Input */}
+                  <div className="flex items-center justify-between lg:justify-start gap-3 px-2 lg:px-0 lg:border-l lg:border-white/10 lg:pl-3">
+                    <span className="text-white/40 font-mono text-[10px] tracking-widest">TEXT</span>
+                    <input
+                      type="text"
+                      value={customText}
+                      onChange={(e) => setCustomText(e.target.value)}
+                      disabled={isAiEnabled}
+                      placeholder={isAiEnabled ? "AI AUTO" : "CUSTOM..."}
+                      className={`bg-transparent border-b border-white/20 text-white font-mono text-sm lg:text-xs px-2 py-1 outline-none focus:border-accent w-36 lg:w-32 text-right lg:text-left placeholder:text-white/20 transition-opacity ${isAiEnabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+                      maxLength={20}
+                    />
+                  </div>
+                </div>
+
+                {/* Export Buttons */}
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleExportBoard}
+                    disabled={isExporting || (!isMember && photos.length === 0)}
+                    className="flex-1 lg:flex-none px-4 py-3 lg:py-1 bg-white/5 lg:bg-white/10 hover:bg-white/10 lg:hover:bg-white/20 rounded-xl lg:rounded text-white/90 font-mono text-xs flex items-center justify-center gap-2 transition-all border border-white/5 lg:border-transparent disabled:opacity-50"
+                    title="Export board as PNG"
+                  >
+                    <i className={`fas ${isExporting ? 'fa-spinner fa-spin' : 'fa-image'}`} />
+                    PNG
+                  </button>
+                  <button
+                    onClick={handleExportContactSheet}
+                    disabled={isExporting || (!isMember && photos.length === 0)}
+                    className="flex-1 lg:flex-none px-4 py-3 lg:py-1 bg-white/5 lg:bg-white/10 hover:bg-white/10 lg:hover:bg-white/20 rounded-xl lg:rounded text-white/90 font-mono text-xs flex items-center justify-center gap-2 transition-all border border-white/5 lg:border-transparent disabled:opacity-50"
+                    title="Export contact sheet as PDF for printing"
+                  >
+                    <i className={`fas ${isExporting ? 'fa-spinner fa-spin' : 'fa-file-pdf'}`} />
+                    PDF
+                  </button>
+                </div>
+
+                {/* Local Library Merge */}
+                {user && localPhotoCount > 0 && (
+                  <button
+                    onClick={handleUploadLocal}
+                    disabled={isUploadingLocal}
+                    className="w-full lg:w-auto px-4 py-3 lg:py-1 bg-white/5 lg:bg-white/10 hover:bg-white/10 lg:hover:bg-white/20 rounded-xl lg:rounded text-white/90 font-mono text-xs flex items-center justify-center gap-3 lg:gap-2 transition-all border border-white/5 lg:border-transparent disabled:opacity-50"
+                    title="Upload my local photos to this room"
+                  >
+                    <i className={`fas ${isUploadingLocal ? 'fa-spinner fa-spin' : 'fa-cloud-upload-alt'}`} />
+                    {isUploadingLocal ? 'UPLOADING...' : `UPLOAD LOCAL (${localPhotoCount})`}
+                  </button>
+                )}
+
+                {/* Review, Trash & Reset Buttons */}
+                <div className="flex gap-2">
+                  {isModerator && (
+                    <button
+                      onClick={openReview}
+                      className="relative px-4 py-3 lg:py-1 bg-white/5 lg:bg-white/10 hover:bg-white/10 lg:hover:bg-white/20 rounded-xl lg:rounded text-white/90 font-mono text-xs flex items-center justify-center gap-2 transition-all border border-white/5 lg:border-transparent"
+                      title="Review photos held for moderation"
+                    >
+                      <i className="fas fa-user-shield" />
+                      {pendingCount > 0 && (
+                        <span className="absolute -top-1.5 -right-1.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-accent text-white text-[9px] leading-[1.1rem] text-center">
+                          {pendingCount}
+                        </span>
+                      )}
+                    </button>
+                  )}
+                  <button
+                    onClick={openTrash}
+                    className="px-4 py-3 lg:py-1 bg-white/5 lg:bg-white/10 hover:bg-white/10 lg:hover:bg-white/20 rounded-xl lg:rounded text-white/90 font-mono text-xs flex items-center justify-center gap-2 transition-all border border-white/5 lg:border-transparent"
+                    title="Open Trash"
+                  >
+                    <i className="fas fa-trash-alt" />
+                  </button>
+                  <button
+                    onClick={() => setIsKioskAdminOpen(true)}
+                    className="px-4 py-3 lg:py-1 bg-white/5 lg:bg-white/10 hover:bg-white/10 lg:hover:bg-white/20 rounded-xl lg:rounded text-white/90 font-mono text-xs flex items-center justify-center gap-2 transition-all border border-white/5 lg:border-transparent"
+                    title="Kiosk mode for unattended photo booths"
+                  >
+                    <i className="fas fa-store" />
+                  </button>
+                  <button
+                    onClick={handleClearBoard}
+                    disabled={!!user && !isRoomOwner}
+                    className="flex-1 lg:flex-none px-4 py-3 lg:py-1 bg-red-500/10 hover:bg-red-500/20 text-red-400 hover:text-red-300 border border-red-500/20 rounded-xl lg:rounded transition-colors font-fredericka text-sm lg:text-base tracking-widest uppercase disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={user && !isRoomOwner ? "Only the room owner can clear the board" : "Move every photo on the board to the trash"}
+                  >
+                    Reset
+                  </button>
+                </div>
+              </>
+            )}
           </div>
         </div>
       </div>
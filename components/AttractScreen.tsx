@@ -0,0 +1,20 @@
+import React from 'react';
+
+interface AttractScreenProps {
+  title: string;
+  onStart: () => void;
+}
+
+// What an unattended kiosk shows between guests
+export const AttractScreen: React.FC<AttractScreenProps> = ({ title, onStart }) => {
+  return (
+    <button
+      onClick={onStart}
+      className="fixed inset-0 z-[90] flex flex-col items-center justify-center gap-6 bg-black/85 backdrop-blur-sm text-white cursor-pointer"
+    >
+      <i className="fas fa-camera-retro text-7xl text-accent animate-bounce" />
+      <h2 className="font-fredericka text-4xl lg:text-6xl tracking-widest text-center px-6 uppercase">{title}</h2>
+      <span className="font-mono text-xs lg:text-sm tracking-[0.4em] text-white/70 animate-pulse uppercase">Tap to take your photo</span>
+    </button>
+  );
+};
@@ -1,21 +1,46 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { supabase } from '../services/supabaseClient';
+import { saveProfile, Profile } from '../services/profileService';
 
 interface AuthModalProps {
     isOpen: boolean;
     onClose: () => void;
     onLoginSuccess: () => void;
+    // When signed in, the modal edits the profile instead
+    profile?: Profile | null;
+    onProfileSaved?: (profile: Profile) => void;
 }
 
-export const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, onLoginSuccess }) => {
+export const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, onLoginSuccess, profile, onProfileSaved }) => {
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
+    const [displayName, setDisplayName] = useState('');
     const [isSignUp, setIsSignUp] = useState(false);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
+    useEffect(() => {
+        if (isOpen) setDisplayName(profile?.displayName ?? '');
+    }, [isOpen, profile?.displayName]);
+
     if (!isOpen) return null;
 
+    const handleSaveProfile = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!profile) return;
+        setLoading(true);
+        setError(null);
+
+        try {
+            onProfileSaved?.(await saveProfile(profile.id, displayName.trim()));
+            onClose();
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
     const handleAuth = async (e: React.FormEvent) => {
         e.preventDefault();
         setLoading(true);
@@ -26,6 +51,7 @@ export const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, onLoginSu
                 const { error } = await supabase.auth.signUp({
                     email,
                     password,
+                    options: { data: { display_name: displayName.trim() } },
                 });
                 if (error) throw error;
                 alert('Check your email for the confirmation link!');
@@ -59,10 +85,10 @@ export const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, onLoginSu
                 {/* Retro Header */}
                 <div className="text-center mb-6 border-b-2 border-gray-300 pb-4">
                     <h2 className="font-mono text-2xl text-gray-800 tracking-widest uppercase font-bold">
-                        {isSignUp ? 'Join the Club' : 'Member Access'}
+                        {profile ? 'Your Card' : isSignUp ? 'Join the Club' : 'Member Access'}
                     </h2>
                     <p className="font-hand text-gray-500 text-lg mt-1">
-                        {isSignUp ? 'Start your retro journey' : 'Welcome back, photographer'}
+                        {profile ? 'How the room sees you' : isSignUp ? 'Start your retro journey' : 'Welcome back, photographer'}
                     </p>
                 </div>
 
@@ -73,48 +99,90 @@ export const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, onLoginSu
                     </div>
                 )}
 
-                <form onSubmit={handleAuth} className="flex flex-col gap-4">
-                    <div>
-                        <label className="block text-gray-600 font-mono text-xs uppercase tracking-wider mb-1">Email</label>
-                        <input
-                            type="email"
-                            value={email}
-                            onChange={(e) => setEmail(e.target.value)}
-                            className="w-full bg-white border-2 border-gray-300 p-2 font-mono text-gray-800 focus:outline-none focus:border-accent transition-colors"
-                            placeholder="user@retro.cam"
-                            required
-                        />
-                    </div>
+                {profile ? (
+                    <form onSubmit={handleSaveProfile} className="flex flex-col gap-4">
+                        <div>
+                            <label className="block text-gray-600 font-mono text-xs uppercase tracking-wider mb-1">Display Name</label>
+                            <input
+                                type="text"
+                                value={displayName}
+                                onChange={(e) => setDisplayName(e.target.value)}
+                                className="w-full bg-white border-2 border-gray-300 p-2 font-mono text-gray-800 focus:outline-none focus:border-accent transition-colors"
+                                placeholder="Shutterbug"
+                                maxLength={32}
+                                required
+                            />
+                        </div>
 
-                    <div>
-                        <label className="block text-gray-600 font-mono text-xs uppercase tracking-wider mb-1">Password</label>
-                        <input
-                            type="password"
-                            value={password}
-                            onChange={(e) => setPassword(e.target.value)}
-                            className="w-full bg-white border-2 border-gray-300 p-2 font-mono text-gray-800 focus:outline-none focus:border-accent transition-colors"
-                            placeholder="••••••••"
-                            required
-                        />
-                    </div>
+                        <button
+                            type="submit"
+                            disabled={loading || !displayName.trim()}
+                            className="mt-4 bg-gray-800 text-white font-mono uppercase tracking-widest py-3 hover:bg-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {loading ? 'Saving...' : 'Save'}
+                        </button>
+                    </form>
+                ) : (
+                    <>
+                        <form onSubmit={handleAuth} className="flex flex-col gap-4">
+                            {isSignUp && (
+                                <div>
+                                    <label className="block text-gray-600 font-mono text-xs uppercase tracking-wider mb-1">Display Name</label>
+                                    <input
+                                        type="text"
+                                        value={displayName}
+                                        onChange={(e) => setDisplayName(e.target.value)}
+                                        className="w-full bg-white border-2 border-gray-300 p-2 font-mono text-gray-800 focus:outline-none focus:border-accent transition-colors"
+                                        placeholder="Shutterbug"
+                                        maxLength={32}
+                                        required
+                                    />
+                                </div>
+                            )}
 
-                    <button
-                        type="submit"
-                        disabled={loading}
-                        className="mt-4 bg-gray-800 text-white font-mono uppercase tracking-widest py-3 hover:bg-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                        {loading ? 'Processing...' : (isSignUp ? 'Sign Up' : 'Login')}
-                    </button>
-                </form>
-
-                <div className="mt-6 text-center">
-                    <button
-                        onClick={() => setIsSignUp(!isSignUp)}
-                        className="text-gray-500 hover:text-accent font-mono text-xs underline underline-offset-4"
-                    >
-                        {isSignUp ? 'Already have an account? Login' : "Don't have an account? Sign Up"}
-                    </button>
-                </div>
+                            <div>
+                                <label className="block text-gray-600 font-mono text-xs uppercase tracking-wider mb-1">Email</label>
+                                <input
+                                    type="email"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    className="w-full bg-white border-2 border-gray-300 p-2 font-mono text-gray-800 focus:outline-none focus:border-accent transition-colors"
+                                    placeholder="user@retro.cam"
+                                    required
+                                />
+                            </div>
+
+                            <div>
+                                <label className="block text-gray-600 font-mono text-xs uppercase tracking-wider mb-1">Password</label>
+                                <input
+                                    type="password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    className="w-full bg-white border-2 border-gray-300 p-2 font-mono text-gray-800 focus:outline-none focus:border-accent transition-colors"
+                                    placeholder="••••••••"
+                                    required
+                                />
+                            </div>
+
+                            <button
+                                type="submit"
+                                disabled={loading}
+                                className="mt-4 bg-gray-800 text-white font-mono uppercase tracking-widest py-3 hover:bg-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {loading ? 'Processing...' : (isSignUp ? 'Sign Up' : 'Login')}
+                            </button>
+                        </form>
+
+                        <div className="mt-6 text-center">
+                            <button
+                                onClick={() => setIsSignUp(!isSignUp)}
+                                className="text-gray-500 hover:text-accent font-mono text-xs underline underline-offset-4"
+                            >
+                                {isSignUp ? 'Already have an account? Login' : "Don't have an account? Sign Up"}
+                            </button>
+                        </div>
+                    </>
+                )}
 
                 {/* Decorative Elements */}
                 <div className="absolute -top-3 left-1/2 -translate-x-1/2 w-32 h-6 bg-yellow-100/50 border border-yellow-200/50 transform -rotate-1 pointer-events-none" />
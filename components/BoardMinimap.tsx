@@ -0,0 +1,84 @@
+import React, { useRef } from 'react';
+import { Photo } from '../types';
+import { BoardPoint, BoardView, BOARD_WIDTH, BOARD_HEIGHT, CARD_WIDTH, CARD_HEIGHT } from '../services/boardCoords';
+
+interface BoardMinimapProps {
+  photos: Photo[];
+  view: BoardView;
+  onNavigate: (point: BoardPoint) => void;
+  onZoom: (factor: number) => void;
+  onHome: () => void;
+  onOpenGallery: () => void;
+}
+
+const MAP_WIDTH = 160;
+const SCALE = MAP_WIDTH / BOARD_WIDTH;
+
+export const BoardMinimap: React.FC<BoardMinimapProps> = ({ photos, view, onNavigate, onZoom, onHome, onOpenGallery }) => {
+  const mapRef = useRef<HTMLDivElement>(null);
+
+  // Click or drag on the map to move the view there
+  const navigateTo = (e: React.PointerEvent) => {
+    if (!mapRef.current) return;
+    const rect = mapRef.current.getBoundingClientRect();
+    onNavigate({ x: (e.clientX - rect.left) / SCALE, y: (e.clientY - rect.top) / SCALE });
+  };
+
+  const buttonClass = "w-7 h-7 text-white/60 hover:text-white hover:bg-white/10 rounded flex items-center justify-center transition-colors";
+
+  return (
+    <div className="fixed top-16 right-4 lg:top-4 z-[55] pointer-events-auto flex flex-col items-end gap-1">
+      <div
+        ref={mapRef}
+        className="relative bg-black/40 backdrop-blur-md border border-white/10 rounded overflow-hidden cursor-crosshair touch-none"
+        style={{ width: MAP_WIDTH, height: BOARD_HEIGHT * SCALE }}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          navigateTo(e);
+        }}
+        onPointerMove={(e) => {
+          if (e.currentTarget.hasPointerCapture(e.pointerId)) navigateTo(e);
+        }}
+      >
+        {photos.map(photo => (
+          <div
+            key={photo.id}
+            className="absolute rounded-[1px]"
+            style={{
+              left: photo.x * SCALE,
+              top: photo.y * SCALE,
+              width: CARD_WIDTH * SCALE,
+              height: CARD_HEIGHT * SCALE,
+              backgroundColor: photo.borderColor || '#ffffff',
+              opacity: 0.8
+            }}
+          />
+        ))}
+        <div
+          className="absolute border border-accent pointer-events-none"
+          style={{
+            left: view.x * SCALE,
+            top: view.y * SCALE,
+            width: window.innerWidth / view.zoom * SCALE,
+            height: window.innerHeight / view.zoom * SCALE
+          }}
+        />
+      </div>
+      <div className="flex items-center gap-1 bg-black/40 backdrop-blur-md border border-white/10 rounded px-1">
+        <button onClick={() => onZoom(1 / 1.25)} className={buttonClass} title="Zoom out">
+          <i className="fas fa-minus text-[10px]" />
+        </button>
+        <span className="font-mono text-[10px] text-white/60 w-10 text-center">{Math.round(view.zoom * 100)}%</span>
+        <button onClick={() => onZoom(1.25)} className={buttonClass} title="Zoom in">
+          <i className="fas fa-plus text-[10px]" />
+        </button>
+        <button onClick={onHome} className={buttonClass} title="Back to the middle">
+          <i className="fas fa-compress-arrows-alt text-[10px]" />
+        </button>
+        <button onClick={onOpenGallery} className={buttonClass} title="Gallery & timeline">
+          <i className="fas fa-images text-[10px]" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { CaptionConfig, CaptionProviderId, CAPTION_PROVIDERS, DEFAULT_PROMPT_TEMPLATE } from '../services/captionService';
+
+interface CaptionSettingsProps {
+  isOpen: boolean;
+  config: CaptionConfig;
+  // Only the room owner (or a signed-out user) can change the room's caption setup
+  canEdit: boolean;
+  onClose: () => void;
+  onSave: (config: CaptionConfig) => void;
+}
+
+export const CaptionSettings: React.FC<CaptionSettingsProps> = ({ isOpen, config, canEdit, onClose, onSave }) => {
+  const [draft, setDraft] = useState(config);
+
+  // Start from the saved config each time the dialog opens
+  useEffect(() => {
+    if (isOpen) setDraft(config);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const provider = CAPTION_PROVIDERS[draft.provider];
+  const update = (changes: Partial<CaptionConfig>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+  };
+
+  const inputClass = "w-full bg-white border-2 border-gray-300 p-2 font-mono text-sm text-gray-800 focus:outline-none focus:border-accent transition-colors disabled:bg-gray-100 disabled:text-gray-500";
+  const labelClass = "block text-gray-600 font-mono text-xs uppercase tracking-wider mb-1";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-[#f0f0f0] w-full max-w-md p-8 rounded-sm shadow-2xl relative border-4 border-white outline outline-1 outline-gray-300 max-h-[90vh] overflow-y-auto hide-scrollbar">
+        <button
+          onClick={onClose}
+          className="absolute top-2 right-2 text-gray-500 hover:text-gray-800"
+        >
+          <i className="fas fa-times text-xl"></i>
+        </button>
+
+        <div className="text-center mb-6 border-b-2 border-gray-300 pb-4">
+          <h2 className="font-mono text-2xl text-gray-800 tracking-widest uppercase font-bold">Captions</h2>
+          <p className="font-hand text-gray-500 text-lg mt-1">
+            {canEdit ? 'Who writes on your photos' : 'Only the room owner can change this'}
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <fieldset disabled={!canEdit} className="flex flex-col gap-4">
+            <div>
+              <label className={labelClass}>Provider</label>
+              <select
+                value={draft.provider}
+                onChange={(e) => update({ provider: e.target.value as CaptionProviderId, model: undefined })}
+                className={inputClass}
+              >
+                {Object.values(CAPTION_PROVIDERS).map(p => (
+                  <option key={p.id} value={p.id}>{p.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {draft.provider === 'openai-compatible' && (
+              <div>
+                <label className={labelClass}>Endpoint</label>
+                <input
+                  type="url"
+                  value={draft.endpoint ?? ''}
+                  onChange={(e) => update({ endpoint: e.target.value || undefined })}
+                  placeholder="http://localhost:11434/v1"
+                  className={inputClass}
+                />
+              </div>
+            )}
+
+            {draft.provider !== 'local' && (
+              <div className="flex gap-4">
+                <div className="flex-1">
+                  <label className={labelClass}>Model</label>
+                  <input
+                    type="text"
+                    value={draft.model ?? ''}
+                    onChange={(e) => update({ model: e.target.value || undefined })}
+                    placeholder={provider.defaultModel}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="w-24">
+                  <label className={labelClass}>Temp</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={draft.temperature}
+                    onChange={(e) => update({ temperature: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            )}
+
+            {draft.provider !== 'local' && (
+              <div>
+                <label className={labelClass}>Prompt</label>
+                <textarea
+                  value={draft.promptTemplate}
+                  onChange={(e) => update({ promptTemplate: e.target.value })}
+                  rows={4}
+                  className={`${inputClass} resize-none`}
+                />
+                <div className="flex justify-between mt-1">
+                  <span className="font-mono text-[10px] text-gray-400">{'{maxWords} {style} {language}'} are filled in per user</span>
+                  <button
+                    type="button"
+                    onClick={() => update({ promptTemplate: DEFAULT_PROMPT_TEMPLATE })}
+                    className="font-mono text-[10px] text-gray-500 hover:text-accent underline underline-offset-2"
+                  >
+                    Reset
+                  </button>
+                </div>
+              </div>
+            )}
+          </fieldset>
+
+          {canEdit && (
+            <button
+              type="submit"
+              className="mt-2 bg-gray-800 text-white font-mono uppercase tracking-widest py-3 hover:bg-accent transition-colors"
+            >
+              Save
+            </button>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useClipRange } from '../hooks/useClipRange';
+
+export interface ClipRange {
+  clipStart: number;
+  // Unset when the clip is kept to its very end
+  clipEnd?: number;
+  posterTime: number;
+}
+
+interface ClipTrimmerProps {
+  url: string;
+  // Seconds, as measured while recording
+  duration: number;
+  // The film stock is applied on playback, so the preview shows it too
+  filterCss?: string;
+  mirrored?: boolean;
+  onConfirm: (range: ClipRange) => void;
+  onDiscard: () => void;
+}
+
+// Trim points can't be closer together than this
+const MIN_LENGTH = 0.5;
+const STEP = 0.1;
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+export const ClipTrimmer: React.FC<ClipTrimmerProps> = ({ url, duration, filterCss, mirrored = false, onConfirm, onDiscard }) => {
+  const [clipStart, setClipStart] = useState(0);
+  const [clipEnd, setClipEnd] = useState(duration);
+  const [posterTime, setPosterTime] = useState(Math.min(0.5, duration / 2));
+  const [isPlaying, setIsPlaying] = useState(true);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const clipRange = useClipRange({ clipStart, clipEnd });
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (isPlaying) video.play().catch(() => {});
+    else video.pause();
+  }, [isPlaying]);
+
+  // Moving a handle pauses on the frame under it
+  const seek = (time: number) => {
+    setIsPlaying(false);
+    if (videoRef.current) videoRef.current.currentTime = time;
+  };
+
+  const handleStart = (value: number) => {
+    const start = Math.min(value, clipEnd - MIN_LENGTH);
+    setClipStart(start);
+    setPosterTime(prev => Math.max(prev, start));
+    seek(start);
+  };
+
+  const handleEnd = (value: number) => {
+    const end = Math.max(value, clipStart + MIN_LENGTH);
+    setClipEnd(end);
+    setPosterTime(prev => Math.min(prev, end));
+    seek(end);
+  };
+
+  const handlePoster = (value: number) => {
+    const time = Math.min(clipEnd, Math.max(clipStart, value));
+    setPosterTime(time);
+    seek(time);
+  };
+
+  const labelClass = "flex justify-between text-gray-600 font-mono text-xs uppercase tracking-wider mb-1";
+  const rangeClass = "w-full accent-accent";
+  const buttonClass = "flex-1 font-mono text-xs uppercase tracking-widest px-4 py-3 transition-colors";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-[#f0f0f0] w-full max-w-md p-6 rounded-sm shadow-2xl relative border-4 border-white outline outline-1 outline-gray-300 max-h-[90vh] overflow-y-auto hide-scrollbar">
+        <div className="text-center mb-4 border-b-2 border-gray-300 pb-3">
+          <h2 className="font-mono text-2xl text-gray-800 tracking-widest uppercase font-bold">Trim</h2>
+          <p className="font-hand text-gray-500 text-lg mt-1">Keep the good part, then pick a cover frame</p>
+        </div>
+
+        <div className="relative aspect-square bg-black overflow-hidden mb-4">
+          <video
+            ref={videoRef}
+            src={url}
+            autoPlay
+            loop
+            playsInline
+            {...clipRange}
+            className="w-full h-full object-cover"
+            style={{ filter: filterCss || undefined, transform: mirrored ? 'scaleX(-1)' : undefined }}
+          />
+          <button
+            onClick={() => setIsPlaying(prev => !prev)}
+            className="absolute bottom-2 left-2 w-9 h-9 rounded-full bg-black/50 text-white hover:bg-black/70 flex items-center justify-center"
+            title={isPlaying ? 'Pause' : 'Play'}
+          >
+            <i className={`fas ${isPlaying ? 'fa-pause' : 'fa-play'} text-xs`} />
+          </button>
+          <span className="absolute bottom-3 right-3 font-mono text-[10px] text-white bg-black/50 px-2 py-0.5 rounded">
+            {formatSeconds(clipEnd - clipStart)}
+          </span>
+        </div>
+
+        <div className="flex flex-col gap-3 mb-6">
+          <div>
+            <label className={labelClass}><span>In</span><span>{formatSeconds(clipStart)}</span></label>
+            <input type="range" min={0} max={duration} step={STEP} value={clipStart} onChange={(e) => handleStart(Number(e.target.value))} className={rangeClass} />
+          </div>
+          <div>
+            <label className={labelClass}><span>Out</span><span>{formatSeconds(clipEnd)}</span></label>
+            <input type="range" min={0} max={duration} step={STEP} value={clipEnd} onChange={(e) => handleEnd(Number(e.target.value))} className={rangeClass} />
+          </div>
+          <div>
+            <label className={labelClass}><span>Cover frame</span><span>{formatSeconds(posterTime)}</span></label>
+            <input type="range" min={clipStart} max={clipEnd} step={STEP} value={posterTime} onChange={(e) => handlePoster(Number(e.target.value))} className={rangeClass} />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={onDiscard} className={`${buttonClass} bg-white border-2 border-gray-300 text-gray-600 hover:border-red-400 hover:text-red-500`}>
+            Discard
+          </button>
+          <button
+            onClick={() => onConfirm({
+              clipStart,
+              clipEnd: clipEnd >= duration - STEP / 2 ? undefined : clipEnd,
+              posterTime
+            })}
+            className={`${buttonClass} bg-gray-800 text-white hover:bg-accent`}
+          >
+            Eject
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
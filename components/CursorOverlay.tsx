@@ -1,41 +1,108 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
+import { Participant } from '../types';
+import { BoardPoint, BoardView, toScreenPoint } from '../services/boardCoords';
 
-interface Cursor {
-    x: number;
-    y: number;
+interface Cursor extends BoardPoint {
     lastUpdate: number;
     color: string;
 }
 
 interface CursorOverlayProps {
     cursors: Record<string, Cursor>;
+    // Names and idle state come from the room's presence roster
+    participants: Participant[];
+    view: BoardView;
 }
 
-export const CursorOverlay: React.FC<CursorOverlayProps> = ({ cursors }) => {
+// Cursor updates arrive roughly every 100ms; ease towards each one over about that long
+const SMOOTHING_MS = 90;
+
+export const CursorOverlay: React.FC<CursorOverlayProps> = ({ cursors, participants, view }) => {
+    const cursorsRef = useRef(cursors);
+    cursorsRef.current = cursors;
+    const viewRef = useRef(view);
+    viewRef.current = view;
+    // Where each cursor is drawn right now, in screen pixels
+    const positionsRef = useRef<Record<string, { x: number; y: number }>>({});
+    const elementsRef = useRef<Record<string, HTMLDivElement | null>>({});
+
+    // Positions are animated outside React so a frame doesn't cost a render
+    useEffect(() => {
+        let frame = 0;
+        let last = performance.now();
+
+        const tick = (now: number) => {
+            const ease = 1 - Math.exp(-(now - last) / SMOOTHING_MS);
+            last = now;
+
+            (Object.entries(cursorsRef.current) as [string, Cursor][]).forEach(([userId, cursor]) => {
+                const target = toScreenPoint(cursor, viewRef.current);
+                const current = positionsRef.current[userId];
+                // New cursors appear where they are instead of flying in from the corner
+                const next = current
+                    ? { x: current.x + (target.x - current.x) * ease, y: current.y + (target.y - current.y) * ease }
+                    : target;
+                positionsRef.current[userId] = next;
+
+                const element = elementsRef.current[userId];
+                if (element) element.style.transform = `translate3d(${next.x}px, ${next.y}px, 0)`;
+            });
+
+            frame = requestAnimationFrame(tick);
+        };
+
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, []);
+
+    // Forget positions of cursors that are gone
+    useEffect(() => {
+        Object.keys(positionsRef.current).forEach(userId => {
+            if (!cursors[userId]) delete positionsRef.current[userId];
+        });
+    }, [cursors]);
+
     return (
         <div className="absolute inset-0 pointer-events-none z-[60] overflow-hidden">
-            {Object.entries(cursors).map(([userId, cursor]) => (
-                <div
-                    key={userId}
-                    className="absolute w-8 h-8 -ml-4 -mt-4 transition-all duration-100 ease-linear"
-                    style={{
-                        left: `${cursor.x * 100}%`,
-                        top: `${cursor.y * 100}%`,
-                        opacity: Math.max(0, 1 - (Date.now() - cursor.lastUpdate) / 2000) // Fade out after 2s
-                    }}
-                >
-                    {/* Core Orb */}
-                    <div
-                        className="w-full h-full rounded-full blur-[2px] animate-pulse"
-                        style={{ backgroundColor: cursor.color, boxShadow: `0 0 10px 2px ${cursor.color}` }}
-                    />
-                    {/* Outer Glow */}
+            {(Object.entries(cursors) as [string, Cursor][]).map(([userId, cursor]) => {
+                const participant = participants.find(p => p.userId === userId);
+                const color = participant?.color ?? cursor.color;
+                const position = positionsRef.current[userId] ?? toScreenPoint(cursor, view);
+
+                return (
                     <div
-                        className="absolute inset-0 w-full h-full rounded-full blur-md opacity-50"
-                        style={{ backgroundColor: cursor.color }}
-                    />
-                </div>
-            ))}
+                        key={userId}
+                        ref={el => { elementsRef.current[userId] = el; }}
+                        className="absolute left-0 top-0 transition-opacity duration-300"
+                        style={{
+                            transform: `translate3d(${position.x}px, ${position.y}px, 0)`,
+                            opacity: participant?.status === 'idle' ? 0.4 : 1
+                        }}
+                    >
+                        <div className="relative w-8 h-8 -ml-4 -mt-4">
+                            {/* Core Orb */}
+                            <div
+                                className="w-full h-full rounded-full blur-[2px] animate-pulse"
+                                style={{ backgroundColor: color, boxShadow: `0 0 10px 2px ${color}` }}
+                            />
+                            {/* Outer Glow */}
+                            <div
+                                className="absolute inset-0 w-full h-full rounded-full blur-md opacity-50"
+                                style={{ backgroundColor: color }}
+                            />
+                            {/* Name Label */}
+                            {participant?.name && (
+                                <span
+                                    className="absolute left-full top-full -ml-1 -mt-1 px-2 py-0.5 rounded-full font-mono text-[10px] text-black whitespace-nowrap shadow"
+                                    style={{ backgroundColor: color }}
+                                >
+                                    {participant.name}
+                                </span>
+                            )}
+                        </div>
+                    </div>
+                );
+            })}
         </div>
     );
 };
@@ -0,0 +1,56 @@
+import React from 'react';
+import { FILM_PACKS, FRAME_ASPECTS, InventoryItem } from '../services/filmPacks';
+import { getFilmStock } from '../services/filmFilters';
+
+interface FilmPackPickerProps {
+  // Signed-out sessions have no inventory and can load any pack
+  inventory: InventoryItem[] | null;
+  onPick: (packId: string) => void;
+  onClose: () => void;
+}
+
+export const FilmPackPicker: React.FC<FilmPackPickerProps> = ({ inventory, onPick, onClose }) => {
+  const quantityOf = (packId: string) =>
+    inventory ? inventory.find(i => i.packId === packId)?.quantity ?? 0 : Infinity;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-[2px] rounded-[3rem] pointer-events-auto">
+      <div className="bg-[#151515] border border-white/10 rounded-xl p-3 w-[80%] shadow-2xl">
+        <div className="flex justify-between items-center mb-2">
+          <span className="font-mono text-[10px] text-white/60 tracking-widest uppercase">Load Film</span>
+          <button onClick={onClose} className="text-white/40 hover:text-white" aria-label="Close">
+            <i className="fas fa-times text-xs" />
+          </button>
+        </div>
+        <div className="flex flex-col gap-1">
+          {FILM_PACKS.map(pack => {
+            const quantity = quantityOf(pack.id);
+            return (
+              <button
+                key={pack.id}
+                onClick={() => onPick(pack.id)}
+                disabled={quantity <= 0}
+                className="flex items-center gap-2 px-2 py-1.5 rounded hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed text-left"
+              >
+                <span
+                  className="shrink-0 border border-white/30"
+                  style={{
+                    backgroundColor: pack.borderColor,
+                    width: 14 * Math.min(1, FRAME_ASPECTS[pack.aspect]),
+                    height: 14 / Math.max(1, FRAME_ASPECTS[pack.aspect])
+                  }}
+                />
+                <span className="flex-1 font-mono text-xs text-white/90 uppercase">{pack.name}</span>
+                <span className="font-mono text-[9px] text-white/40 uppercase">{pack.shots} · {getFilmStock(pack.defaultFilterId).name}</span>
+                {inventory && <span className="font-mono text-[10px] text-accent w-6 text-right">x{quantity}</span>}
+              </button>
+            );
+          })}
+        </div>
+        {inventory && (
+          <p className="mt-2 font-mono text-[9px] text-white/30 uppercase tracking-widest text-center">Restocked daily</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,41 @@
-
 import React from 'react';
+import { FILM_STOCKS, getFilmStock } from '../services/filmFilters';
+
+interface FilterDialProps {
+  value: string;
+  onChange: (id: string) => void;
+  disabled?: boolean;
+}
+
+export const FilterDial: React.FC<FilterDialProps> = ({ value, onChange, disabled = false }) => {
+  const index = Math.max(0, FILM_STOCKS.findIndex(s => s.id === value));
+  const step = 360 / FILM_STOCKS.length;
+  const stock = getFilmStock(value);
+
+  const turn = (dir: 1 | -1) => {
+    if (disabled) return;
+    const next = (index + dir + FILM_STOCKS.length) % FILM_STOCKS.length;
+    onChange(FILM_STOCKS[next].id);
+  };
 
-// Component removed as per request to remove filter functionality
-export const FilterDial: React.FC<any> = () => {
-  return null;
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <span className="font-mono text-[10px] text-gray-300 uppercase tracking-widest">FILM</span>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => turn(1)}
+          onContextMenu={(e) => { e.preventDefault(); turn(-1); }}
+          onWheel={(e) => turn(e.deltaY > 0 ? 1 : -1)}
+          disabled={disabled}
+          title={`Film: ${stock.name} (click to turn, right-click to go back)`}
+          className="w-7 h-7 rounded-full relative bg-gradient-to-b from-gray-200 to-gray-500 shadow-md border border-gray-800 transition-transform duration-300 disabled:opacity-50"
+          style={{ transform: `rotate(${index * step}deg)` }}
+        >
+          <span className="absolute top-0.5 left-1/2 -translate-x-1/2 w-0.5 h-2 rounded bg-accent" />
+          <span className="absolute inset-1.5 rounded-full bg-[repeating-conic-gradient(rgba(0,0,0,0.15)_0deg_6deg,transparent_6deg_12deg)]" />
+        </button>
+        <span className="font-mono text-[10px] text-white/80 w-20 truncate uppercase">{stock.name}</span>
+      </div>
+    </div>
+  );
 };
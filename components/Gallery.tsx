@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { Photo } from '../types';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { useGalleryPhotos } from '../hooks/useGalleryPhotos';
+import { PhotoFilters, fetchPhotosByIds } from '../services/photoService';
+import { fetchRoomMembers } from '../services/roomService';
+import { Lightbox } from './Lightbox';
+import { PhotoSocial } from './PhotoThread';
+
+type GalleryLayout = 'grid' | 'timeline';
+
+interface GalleryProps {
+  // The room to page through; null when signed out
+  room: string | null;
+  // Photos on this device, used when there is no room
+  localPhotos: Photo[];
+  social?: PhotoSocial;
+  // Opened straight away in the lightbox, e.g. from the QR code on a kiosk print
+  linkedPhotoId?: string | null;
+  onLinkedPhotoClose?: () => void;
+  onClose: () => void;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+const GalleryTile: React.FC<{ photo: Photo; onOpen: () => void }> = ({ photo, onOpen }) => {
+  const mediaUrl = useMediaUrl(photo);
+
+  return (
+    <button onClick={onOpen} className="relative bg-white p-1.5 pb-6 shadow-md hover:-translate-y-0.5 hover:shadow-xl transition-all text-left">
+      <div className="aspect-square bg-black overflow-hidden">
+        {mediaUrl && (photo.mediaType === 'video'
+          ? <video src={photo.posterTime ? `${mediaUrl}#t=${photo.posterTime}` : mediaUrl} muted playsInline preload="metadata" className={`w-full h-full object-cover ${photo.mirrored ? '-scale-x-100' : ''}`} />
+          : <img src={mediaUrl} alt={photo.caption || 'Photo'} loading="lazy" className="w-full h-full object-cover" />)}
+      </div>
+      {photo.mediaType === 'video' && <i className="fas fa-video absolute top-3 right-3 text-white/80 text-xs drop-shadow" />}
+      {!!photo.reactionCount && (
+        <span className="absolute top-3 left-3 px-1.5 rounded-full bg-black/50 text-white/90 font-mono text-[10px] leading-4">
+          <i className="fas fa-heart text-accent mr-1" />{photo.reactionCount}
+        </span>
+      )}
+      <p className="absolute bottom-1 inset-x-1.5 font-hand text-base text-gray-800 leading-none truncate text-center">{photo.caption || ''}</p>
+    </button>
+  );
+};
+
+const dayLabel = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+
+// Consecutive photos from the same calendar day; the list is already newest first
+const groupByDay = (photos: Photo[]) =>
+  photos.reduce<{ day: string; items: { photo: Photo; index: number }[] }[]>((groups, photo, index) => {
+    const day = new Date(photo.timestamp).toDateString();
+    const last = groups[groups.length - 1];
+    if (last?.day === day) last.items.push({ photo, index });
+    else groups.push({ day, items: [{ photo, index }] });
+    return groups;
+  }, []);
+
+export const Gallery: React.FC<GalleryProps> = ({ room, localPhotos, social, linkedPhotoId, onLinkedPhotoClose, onClose }) => {
+  const [layout, setLayout] = useState<GalleryLayout>('grid');
+  const [authorId, setAuthorId] = useState('');
+  const [mediaType, setMediaType] = useState<'' | 'photo' | 'video'>('');
+  const [byReactions, setByReactions] = useState(false);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [authors, setAuthors] = useState<{ userId: string; name: string }[]>([]);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [linkedPhoto, setLinkedPhoto] = useState<Photo | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Only query once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // Anyone who is a member can have photos here
+  useEffect(() => {
+    setAuthors([]);
+    setAuthorId('');
+    if (!room) return;
+
+    let ignore = false;
+    fetchRoomMembers(room)
+      .then(members => {
+        if (ignore) return;
+        setAuthors(members.map(m => ({ userId: m.userId, name: m.name || m.userId.slice(0, 8) })));
+      })
+      .catch(err => console.error("Error loading gallery authors:", err));
+    return () => { ignore = true; };
+  }, [room]);
+
+  // The linked photo may be far down the list, so it is fetched on its own
+  useEffect(() => {
+    setLinkedPhoto(null);
+    if (!room || !linkedPhotoId) return;
+
+    let ignore = false;
+    fetchPhotosByIds([linkedPhotoId])
+      .then(([photo]) => {
+        if (ignore) return;
+        if (photo) setLinkedPhoto(photo);
+        else onLinkedPhotoClose?.();
+      })
+      .catch(err => console.error("Error loading linked photo:", err));
+    return () => { ignore = true; };
+  }, [room, linkedPhotoId]);
+
+  const filters: PhotoFilters = { userId: authorId || undefined, mediaType: mediaType || undefined, search: search || undefined };
+  // The timeline is by day, so it always runs newest first
+  const { photos, hasMore, isLoading, loadMore } = useGalleryPhotos(room, localPhotos, filters, !!room && layout === 'grid' && byReactions);
+
+  // Load the next page as the end of the list scrolls into view
+  useEffect(() => {
+    if (!sentinelRef.current || !hasMore) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinelRef.current);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  const authorName = (photo: Photo) => authors.find(a => a.userId === photo.userId)?.name ?? null;
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 rounded font-mono text-[10px] tracking-widest transition-colors ${active ? 'bg-accent text-white' : 'text-white/60 hover:text-white hover:bg-white/10'}`;
+  const selectClass = "bg-transparent border-b border-white/20 text-white font-mono text-xs py-1 outline-none focus:border-accent uppercase";
+  const gridClass = "grid grid-cols-3 sm:grid-cols-4 xl:grid-cols-6 gap-3";
+
+  const renderTiles = (items: { photo: Photo; index: number }[]) => (
+    <div className={gridClass}>
+      {items.map(({ photo, index }) => (
+        <GalleryTile key={photo.id} photo={photo} onOpen={() => setOpenIndex(index)} />
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-0 lg:inset-4 lg:left-0 flex flex-col bg-black/60 backdrop-blur-xl border-t lg:border border-white/10 lg:rounded-2xl pointer-events-auto overflow-hidden">
+      <div className="flex flex-wrap items-center gap-3 p-3 border-b border-white/10">
+        <div className="flex gap-1">
+          <button onClick={() => setLayout('grid')} className={tabClass(layout === 'grid')}>GRID</button>
+          <button onClick={() => setLayout('timeline')} className={tabClass(layout === 'timeline')}>TIMELINE</button>
+        </div>
+
+        <div className="flex flex-1 items-center gap-3 min-w-0">
+          {authors.length > 1 && (
+            <select value={authorId} onChange={(e) => setAuthorId(e.target.value)} className={`${selectClass} max-w-[8rem]`} title="Author">
+              <option value="" className="bg-gray-900">Everyone</option>
+              {authors.map(a => (
+                <option key={a.userId} value={a.userId} className="bg-gray-900">{a.name}</option>
+              ))}
+            </select>
+          )}
+          <select value={mediaType} onChange={(e) => setMediaType(e.target.value as '' | 'photo' | 'video')} className={selectClass} title="Media type">
+            <option value="" className="bg-gray-900">All</option>
+            <option value="photo" className="bg-gray-900">Photos</option>
+            <option value="video" className="bg-gray-900">Videos</option>
+          </select>
+          {room && layout === 'grid' && (
+            <select value={byReactions ? 'reactions' : 'newest'} onChange={(e) => setByReactions(e.target.value === 'reactions')} className={selectClass} title="Sort">
+              <option value="newest" className="bg-gray-900">Newest</option>
+              <option value="reactions" className="bg-gray-900">Most loved</option>
+            </select>
+          )}
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="SEARCH CAPTIONS..."
+            className="flex-1 min-w-0 bg-transparent border-b border-white/20 text-white font-mono text-xs px-1 py-1 outline-none focus:border-accent placeholder:text-white/20"
+          />
+        </div>
+
+        <button
+          onClick={onClose}
+          className="px-3 py-1 rounded bg-white/10 hover:bg-white/20 text-white/90 font-mono text-[10px] tracking-widest flex items-center gap-2"
+          title="Back to the board"
+        >
+          <i className="fas fa-th-large" />BOARD
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto hide-scrollbar p-3 touch-pan-y">
+        {photos.length === 0 && !isLoading ? (
+          <p className="font-mono text-xs text-white/40 text-center py-12 uppercase tracking-widest">
+            {filters.userId || filters.mediaType || filters.search ? 'Nothing matches' : 'No photos yet'}
+          </p>
+        ) : layout === 'grid' ? (
+          renderTiles(photos.map((photo, index) => ({ photo, index })))
+        ) : (
+          <div className="flex flex-col gap-6">
+            {groupByDay(photos).map(group => (
+              <section key={group.day}>
+                <h3 className="sticky top-0 z-10 -mx-3 px-3 py-2 mb-2 bg-black/70 backdrop-blur font-mono text-[10px] text-white/60 uppercase tracking-widest">
+                  {dayLabel(group.items[0].photo.timestamp)}
+                  <span className="text-white/30 ml-2">{group.items.length}</span>
+                </h3>
+                {renderTiles(group.items)}
+              </section>
+            ))}
+          </div>
+        )}
+        <div ref={sentinelRef} className="h-px" />
+        {isLoading && (
+          <p className="font-mono text-[10px] text-white/40 text-center py-4 uppercase tracking-widest">Loading...</p>
+        )}
+      </div>
+
+      {/* Portalled so the panel's blur doesn't box it in, and it covers the whole app */}
+      {openIndex !== null && createPortal(
+        <Lightbox
+          photos={photos}
+          index={openIndex}
+          authorName={authorName}
+          onIndexChange={setOpenIndex}
+          onClose={() => setOpenIndex(null)}
+          onNearEnd={hasMore ? loadMore : undefined}
+          social={social}
+        />,
+        document.body
+      )}
+      {openIndex === null && linkedPhoto && createPortal(
+        <Lightbox
+          photos={[linkedPhoto]}
+          index={0}
+          authorName={authorName}
+          onIndexChange={() => { }}
+          onClose={() => {
+            setLinkedPhoto(null);
+            onLinkedPhotoClose?.();
+          }}
+          social={social}
+        />,
+        document.body
+      )}
+    </div>
+  );
+};
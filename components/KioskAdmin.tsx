@@ -0,0 +1,272 @@
+import React, { useState, useEffect } from 'react';
+import { CaptionPersona, CAPTION_PERSONAS, CAPTION_LANGUAGES, CAPTION_LENGTHS } from '../services/captionService';
+import { FILM_PACKS } from '../services/filmPacks';
+import { KioskConfig, KIOSK_IDLE_OPTIONS, MIN_PIN_LENGTH, checkPin, hashPin } from '../services/kioskMode';
+
+interface KioskAdminProps {
+  isOpen: boolean;
+  config: KioskConfig;
+  // Where the booth starts out when kiosk mode is first switched on
+  currentRoom: string;
+  isSignedIn: boolean;
+  onClose: () => void;
+  onSave: (config: KioskConfig) => void;
+  // Local captions ignore persona and language
+  isCaptionStyleFixed: boolean;
+}
+
+// Wrong PINs in a row before the pad locks for a while
+const MAX_ATTEMPTS = 5;
+const LOCKOUT_MS = 30000;
+
+export const KioskAdmin: React.FC<KioskAdminProps> = ({ isOpen, config, currentRoom, isSignedIn, onClose, onSave, isCaptionStyleFixed }) => {
+  const [draft, setDraft] = useState(config);
+  const [pin, setPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [attempts, setAttempts] = useState(0);
+  const [lockedUntil, setLockedUntil] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Every opening starts locked (while the kiosk runs) and from the saved setup
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft({ ...config, room: config.room || currentRoom });
+    setPin('');
+    setNewPin('');
+    setError(null);
+    setIsUnlocked(!config.enabled);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<KioskConfig>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isChecking) return;
+    if (Date.now() < lockedUntil) {
+      setError('Too many tries, wait a moment');
+      return;
+    }
+
+    setIsChecking(true);
+    try {
+      if (await checkPin(config, pin)) {
+        setAttempts(0);
+        setError(null);
+        setIsUnlocked(true);
+        return;
+      }
+      const next = attempts + 1;
+      setAttempts(next >= MAX_ATTEMPTS ? 0 : next);
+      if (next >= MAX_ATTEMPTS) setLockedUntil(Date.now() + LOCKOUT_MS);
+      setError('Wrong PIN');
+      setPin('');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const save = async (enabled: boolean) => {
+    if (enabled && !draft.room.trim()) {
+      setError('Pick the room the booth shoots into');
+      return;
+    }
+    if (newPin && newPin.length < MIN_PIN_LENGTH) {
+      setError(`The PIN needs at least ${MIN_PIN_LENGTH} digits`);
+      return;
+    }
+    if (enabled && !newPin && !draft.pinHash) {
+      setError('Set a PIN first, so guests can\'t unlock it');
+      return;
+    }
+
+    try {
+      const pinHash = newPin ? await hashPin(newPin) : draft.pinHash;
+      onSave({ ...draft, room: draft.room.trim(), pinHash, enabled });
+    } catch (err) {
+      console.error("Error saving kiosk setup:", err);
+      alert("Failed to save the kiosk setup!");
+    }
+  };
+
+  const inputClass = "w-full bg-white border-2 border-gray-300 p-2 font-mono text-sm text-gray-800 focus:outline-none focus:border-accent transition-colors disabled:bg-gray-100 disabled:text-gray-500";
+  const labelClass = "block text-gray-600 font-mono text-xs uppercase tracking-wider mb-1";
+  const buttonClass = "bg-gray-800 text-white font-mono uppercase tracking-widest py-3 hover:bg-accent transition-colors disabled:opacity-50";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-[#f0f0f0] w-full max-w-md p-8 rounded-sm shadow-2xl relative border-4 border-white outline outline-1 outline-gray-300 max-h-[90vh] overflow-y-auto hide-scrollbar">
+        <button
+          onClick={onClose}
+          className="absolute top-2 right-2 text-gray-500 hover:text-gray-800"
+        >
+          <i className="fas fa-times text-xl"></i>
+        </button>
+
+        <div className="text-center mb-6 border-b-2 border-gray-300 pb-4">
+          <h2 className="font-mono text-2xl text-gray-800 tracking-widest uppercase font-bold">Kiosk</h2>
+          <p className="font-hand text-gray-500 text-lg mt-1">
+            {isUnlocked ? 'Lock this device into a photo booth' : 'Enter the PIN to change the booth'}
+          </p>
+        </div>
+
+        {!isUnlocked ? (
+          <form onSubmit={handleUnlock} className="flex flex-col gap-4">
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              autoFocus
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              placeholder="PIN"
+              className={`${inputClass} text-center text-2xl tracking-[0.5em]`}
+            />
+            {error && <p className="font-mono text-xs text-red-500 text-center uppercase tracking-wider">{error}</p>}
+            <button type="submit" disabled={!pin || isChecking} className={buttonClass}>
+              Unlock
+            </button>
+          </form>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              save(true);
+            }}
+            className="flex flex-col gap-4"
+          >
+            {!isSignedIn && (
+              <p className="font-hand text-lg text-amber-700 leading-tight">
+                Sign in as the host (the room's owner or a moderator) before locking, or photos stay on this device and the QR codes have nothing to link to.
+              </p>
+            )}
+
+            <div className="flex gap-4">
+              <div className="flex-1">
+                <label className={labelClass}>Room</label>
+                <input
+                  type="text"
+                  value={draft.room}
+                  onChange={(e) => update({ room: e.target.value })}
+                  maxLength={10}
+                  className={`${inputClass} uppercase`}
+                />
+              </div>
+              <div className="flex-1">
+                <label className={labelClass}>Film</label>
+                <select value={draft.packId} onChange={(e) => update({ packId: e.target.value })} className={inputClass}>
+                  {FILM_PACKS.map(pack => (
+                    <option key={pack.id} value={pack.id}>{pack.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 cursor-pointer font-mono text-xs uppercase tracking-wider text-gray-600">
+              <input type="checkbox" checked={draft.aiCaptions} onChange={(e) => update({ aiCaptions: e.target.checked })} />
+              AI captions
+            </label>
+
+            {draft.aiCaptions ? (
+              <div className="flex gap-2">
+                <select
+                  value={draft.captionStyle.persona}
+                  onChange={(e) => update({ captionStyle: { ...draft.captionStyle, persona: e.target.value as CaptionPersona } })}
+                  disabled={isCaptionStyleFixed}
+                  className={inputClass}
+                  title={isCaptionStyleFixed ? "Local captions have one style" : "Caption persona"}
+                >
+                  {CAPTION_PERSONAS.map(p => (
+                    <option key={p.id} value={p.id}>{p.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={draft.captionStyle.language}
+                  onChange={(e) => update({ captionStyle: { ...draft.captionStyle, language: e.target.value } })}
+                  disabled={isCaptionStyleFixed}
+                  className={inputClass}
+                  title={isCaptionStyleFixed ? "Local captions are English only" : "Caption language"}
+                >
+                  {CAPTION_LANGUAGES.map(language => (
+                    <option key={language} value={language}>{language}</option>
+                  ))}
+                </select>
+                <select
+                  value={draft.captionStyle.maxWords}
+                  onChange={(e) => update({ captionStyle: { ...draft.captionStyle, maxWords: Number(e.target.value) } })}
+                  className={`${inputClass} w-20`}
+                  title="Maximum caption length"
+                >
+                  {CAPTION_LENGTHS.map(length => (
+                    <option key={length} value={length}>{length}W</option>
+                  ))}
+                </select>
+              </div>
+            ) : (
+              <div>
+                <label className={labelClass}>Text on every card</label>
+                <input
+                  type="text"
+                  value={draft.customText}
+                  onChange={(e) => update({ customText: e.target.value })}
+                  placeholder="Sam & Alex 2026"
+                  maxLength={20}
+                  className={inputClass}
+                />
+              </div>
+            )}
+
+            <div className="flex gap-4">
+              <div className="flex-1">
+                <label className={labelClass}>Attract screen after</label>
+                <select value={draft.idleSeconds} onChange={(e) => update({ idleSeconds: Number(e.target.value) })} className={inputClass}>
+                  {KIOSK_IDLE_OPTIONS.map(seconds => (
+                    <option key={seconds} value={seconds}>{seconds < 60 ? `${seconds} sec` : `${seconds / 60} min`}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className={labelClass}>{draft.pinHash ? 'New PIN' : 'PIN'}</label>
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="new-password"
+                  value={newPin}
+                  onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+                  placeholder={draft.pinHash ? 'Unchanged' : `${MIN_PIN_LENGTH}+ digits`}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 cursor-pointer font-mono text-xs uppercase tracking-wider text-gray-600">
+              <input type="checkbox" checked={draft.showQr} onChange={(e) => update({ showQr: e.target.checked })} />
+              QR code on each print
+            </label>
+            {draft.showQr && (
+              <p className="font-mono text-[10px] text-gray-400 -mt-3">Each code opens just that photo, even in a private room; it never lets anyone join</p>
+            )}
+
+            {error && <p className="font-mono text-xs text-red-500 text-center uppercase tracking-wider">{error}</p>}
+
+            <button type="submit" className={`mt-2 ${buttonClass}`}>
+              {config.enabled ? 'Save' : 'Start Kiosk'}
+            </button>
+            {config.enabled && (
+              <button
+                type="button"
+                onClick={() => save(false)}
+                className="font-mono text-xs text-red-500 hover:text-red-700 uppercase tracking-widest"
+              >
+                Exit kiosk mode
+              </button>
+            )}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,260 @@
+import React, { useState, useRef } from 'react';
+import { Photo, PhotoLayer } from '../types';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { getFilmStock } from '../services/filmFilters';
+import { PhotoLayers, doodlePath, DOODLE_VIEW_WIDTH } from './PhotoLayers';
+
+interface LayerEditorProps {
+  photo: Photo;
+  // Image width / height of the card's frame
+  ratio: number;
+  onSave: (layers: PhotoLayer[]) => void;
+  onClose: () => void;
+}
+
+type Tool = 'pen' | 'sticker' | 'text' | 'move';
+
+const TOOLS: { id: Tool; icon: string; label: string }[] = [
+  { id: 'pen', icon: 'fa-pen', label: 'Draw' },
+  { id: 'sticker', icon: 'fa-smile', label: 'Sticker' },
+  { id: 'text', icon: 'fa-font', label: 'Text' },
+  { id: 'move', icon: 'fa-arrows-alt', label: 'Move' },
+];
+
+const COLORS = ['#111111', '#ffffff', '#FF5722', '#facc15', '#22c55e', '#3b82f6', '#ec4899'];
+const STICKERS = ['❤️', '⭐', '✨', '😂', '😎', '🥳', '🔥', '🎉', '🌸', '👑', '🦄', '🍕', '💋', '👻', '🌈', '📸'];
+
+// Base sizes as a fraction of the image width, scaled by the S / M / L picker
+const SCALES = [0.6, 1, 1.6];
+const PEN_WIDTH = 0.015;
+const STICKER_SIZE = 0.18;
+const TEXT_SIZE = 0.11;
+
+// Points closer together than this (in image widths) are dropped while drawing
+const MIN_POINT_GAP = 0.004;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export const LayerEditor: React.FC<LayerEditorProps> = ({ photo, ratio, onSave, onClose }) => {
+  const mediaUrl = useMediaUrl(photo);
+  const [layers, setLayers] = useState<PhotoLayer[]>(photo.layers ?? []);
+  const [history, setHistory] = useState<PhotoLayer[][]>([]);
+  const [tool, setTool] = useState<Tool>('pen');
+  const [color, setColor] = useState(COLORS[2]);
+  const [scale, setScale] = useState(1);
+  const [sticker, setSticker] = useState(STICKERS[0]);
+  const [text, setText] = useState('');
+  const [stroke, setStroke] = useState<[number, number][] | null>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef<{ id: string; dx: number; dy: number } | null>(null);
+
+  const commit = (next: PhotoLayer[]) => {
+    setHistory(prev => [...prev, layers]);
+    setLayers(next);
+  };
+
+  const undo = () => {
+    if (history.length === 0) return;
+    setLayers(history[history.length - 1]);
+    setHistory(prev => prev.slice(0, -1));
+  };
+
+  const pointFrom = (e: React.PointerEvent): [number, number] => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    return [(e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height];
+  };
+
+  // The topmost sticker or text under a point, roughly by its size
+  const layerAt = ([x, y]: [number, number]) =>
+    [...layers].reverse().find((layer): layer is Extract<PhotoLayer, { x: number }> => {
+      if (layer.type === 'doodle') return false;
+      const halfWidth = layer.type === 'text' ? layer.size * layer.text.length * 0.25 : layer.size * 0.6;
+      return Math.abs(x - layer.x) < halfWidth && Math.abs((y - layer.y) / ratio) < layer.size * 0.6;
+    });
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointFrom(e);
+    const id = crypto.randomUUID();
+
+    switch (tool) {
+      case 'pen':
+        setStroke([point]);
+        break;
+      case 'sticker':
+        commit([...layers, { id, type: 'sticker', emoji: sticker, x: round(point[0]), y: round(point[1]), size: STICKER_SIZE * SCALES[scale], rotation: Math.round(Math.random() * 30 - 15) }]);
+        break;
+      case 'text':
+        if (!text.trim()) return;
+        commit([...layers, { id, type: 'text', text: text.trim(), x: round(point[0]), y: round(point[1]), size: TEXT_SIZE * SCALES[scale], color, rotation: 0 }]);
+        setText('');
+        break;
+      case 'move': {
+        const layer = layerAt(point);
+        if (!layer) return;
+        setHistory(prev => [...prev, layers]);
+        draggingRef.current = { id: layer.id, dx: layer.x - point[0], dy: layer.y - point[1] };
+        break;
+      }
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const [x, y] = pointFrom(e);
+
+    if (stroke) {
+      const [lastX, lastY] = stroke[stroke.length - 1];
+      if (Math.hypot(x - lastX, (y - lastY) / ratio) >= MIN_POINT_GAP) setStroke([...stroke, [x, y]]);
+      return;
+    }
+
+    const dragging = draggingRef.current;
+    if (dragging) {
+      setLayers(prev => prev.map(layer => layer.id === dragging.id && layer.type !== 'doodle'
+        ? { ...layer, x: round(x + dragging.dx), y: round(y + dragging.dy) }
+        : layer));
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (stroke) {
+      // A tap still leaves a dot
+      const points = (stroke.length === 1 ? [stroke[0], stroke[0]] : stroke).map(([x, y]) => [round(x), round(y)] as [number, number]);
+      commit([...layers, { id: crypto.randomUUID(), type: 'doodle', color, width: PEN_WIDTH * SCALES[scale], points }]);
+      setStroke(null);
+    }
+    draggingRef.current = null;
+  };
+
+  const filmStock = getFilmStock(photo.filterId);
+  const toolClass = (active: boolean) =>
+    `flex-1 flex flex-col items-center gap-1 py-2 font-mono text-[10px] uppercase tracking-widest transition-colors ${active ? 'bg-gray-800 text-white' : 'text-gray-500 hover:text-gray-800'}`;
+  const buttonClass = "flex-1 font-mono text-xs uppercase tracking-widest px-4 py-3 transition-colors";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-[#f0f0f0] w-full max-w-md p-4 rounded-sm shadow-2xl relative border-4 border-white outline outline-1 outline-gray-300 max-h-[95vh] overflow-y-auto hide-scrollbar">
+        <div
+          ref={stageRef}
+          className={`relative mx-auto bg-black overflow-hidden touch-none select-none ${tool === 'move' ? 'cursor-move' : 'cursor-crosshair'}`}
+          style={{ aspectRatio: ratio, width: ratio < 1 ? 'auto' : '100%', height: ratio < 1 ? '55vh' : 'auto' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {mediaUrl && (photo.mediaType === 'video' ? (
+            <video
+              src={mediaUrl}
+              autoPlay
+              loop
+              muted
+              playsInline
+              className="w-full h-full object-cover pointer-events-none"
+              style={{ filter: filmStock.previewCss || undefined, transform: photo.mirrored ? 'scaleX(-1)' : undefined }}
+            />
+          ) : (
+            <img src={mediaUrl} alt="" draggable={false} className="w-full h-full object-cover pointer-events-none" />
+          ))}
+          <PhotoLayers layers={layers} ratio={ratio} />
+          {stroke && (
+            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${DOODLE_VIEW_WIDTH} ${DOODLE_VIEW_WIDTH / ratio}`} preserveAspectRatio="none">
+              <path
+                d={doodlePath(stroke, DOODLE_VIEW_WIDTH, DOODLE_VIEW_WIDTH / ratio)}
+                stroke={color}
+                strokeWidth={PEN_WIDTH * SCALES[scale] * DOODLE_VIEW_WIDTH}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                fill="none"
+              />
+            </svg>
+          )}
+        </div>
+
+        <div className="flex border-2 border-gray-300 bg-white mt-4">
+          {TOOLS.map(t => (
+            <button key={t.id} onClick={() => setTool(t.id)} className={toolClass(tool === t.id)}>
+              <i className={`fas ${t.icon} text-sm`} />{t.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-col gap-3 mt-3 min-h-[4.5rem]">
+          {tool === 'sticker' && (
+            <div className="grid grid-cols-8 gap-1">
+              {STICKERS.map(emoji => (
+                <button
+                  key={emoji}
+                  onClick={() => setSticker(emoji)}
+                  className={`text-2xl rounded py-1 ${sticker === emoji ? 'bg-gray-300' : 'hover:bg-gray-200'}`}
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {tool === 'text' && (
+            <input
+              type="text"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Type, then tap the photo"
+              maxLength={30}
+              className="w-full bg-white border-2 border-gray-300 p-2 font-hand text-xl text-gray-800 focus:outline-none focus:border-accent"
+            />
+          )}
+
+          {tool !== 'move' && (
+            <div className="flex items-center justify-between gap-2">
+              {tool !== 'sticker' && (
+                <div className="flex gap-1">
+                  {COLORS.map(c => (
+                    <button
+                      key={c}
+                      onClick={() => setColor(c)}
+                      className={`w-6 h-6 rounded-full border-2 ${color === c ? 'border-gray-800 scale-110' : 'border-gray-300'}`}
+                      style={{ backgroundColor: c }}
+                      title={c}
+                    />
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-1 ml-auto font-mono text-[10px]">
+                {SCALES.map((_, i) => (
+                  <button
+                    key={i}
+                    onClick={() => setScale(i)}
+                    className={`w-7 h-7 border-2 ${scale === i ? 'border-gray-800 bg-gray-800 text-white' : 'border-gray-300 text-gray-500'}`}
+                  >
+                    {['S', 'M', 'L'][i]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {tool === 'move' && (
+            <p className="font-hand text-gray-500 text-lg text-center">Drag a sticker or label to move it</p>
+          )}
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          <button onClick={undo} disabled={history.length === 0} className={`${buttonClass} flex-none bg-white border-2 border-gray-300 text-gray-600 hover:text-accent disabled:opacity-40`} title="Undo">
+            <i className="fas fa-undo" />
+          </button>
+          <button onClick={() => commit([])} disabled={layers.length === 0} className={`${buttonClass} flex-none bg-white border-2 border-gray-300 text-gray-600 hover:text-red-500 disabled:opacity-40`} title="Remove everything">
+            <i className="fas fa-eraser" />
+          </button>
+          <button onClick={onClose} className={`${buttonClass} bg-white border-2 border-gray-300 text-gray-600 hover:text-gray-800`}>
+            Cancel
+          </button>
+          <button onClick={() => onSave(layers)} className={`${buttonClass} bg-gray-800 text-white hover:bg-accent`}>
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Photo } from '../types';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { useClipRange } from '../hooks/useClipRange';
+import { formatPhotoDate } from '../services/photoService';
+import { PhotoSocial, PhotoThreadPanel, ReactionStamps } from './PhotoThread';
+
+interface LightboxProps {
+  photos: Photo[];
+  index: number;
+  authorName: (photo: Photo) => string | null;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  // Called near the end of the list, so the slideshow can keep going while pages load
+  onNearEnd?: () => void;
+  // Room members can react and comment alongside the photo
+  social?: PhotoSocial;
+}
+
+const SLIDE_MS = 4000;
+const SWIPE_PX = 50;
+
+const LightboxMedia: React.FC<{ photo: Photo; isPlaying: boolean; onEnded: () => void }> = ({ photo, isPlaying, onEnded }) => {
+  const mediaUrl = useMediaUrl(photo);
+  const clipRange = useClipRange(photo, onEnded);
+  if (!mediaUrl) return <i className="fas fa-spinner fa-spin text-white/40 text-3xl" />;
+
+  return photo.mediaType === 'video' ? (
+    <video
+      key={photo.id}
+      src={mediaUrl}
+      autoPlay
+      controls={!isPlaying}
+      playsInline
+      {...clipRange}
+      className="max-w-full max-h-full object-contain shadow-2xl"
+      style={{ transform: photo.mirrored ? 'scaleX(-1)' : undefined }}
+    />
+  ) : (
+    <img
+      src={mediaUrl}
+      alt={photo.caption || 'Photo'}
+      draggable={false}
+      className="max-w-full max-h-full object-contain shadow-2xl select-none"
+    />
+  );
+};
+
+export const Lightbox: React.FC<LightboxProps> = ({ photos, index, authorName, onIndexChange, onClose, onNearEnd, social }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isThreadOpen, setIsThreadOpen] = useState(false);
+  const swipeStart = useRef<number | null>(null);
+  const photo = photos[index];
+
+  const go = (delta: number) => {
+    const target = index + delta;
+    if (target >= 0 && target < photos.length) onIndexChange(target);
+    else if (isPlaying && delta > 0) onIndexChange(0);
+  };
+  // Handlers registered once read the latest props through this ref
+  const goRef = useRef(go);
+  goRef.current = go;
+
+  useEffect(() => {
+    if (index >= photos.length - 3) onNearEnd?.();
+  }, [index, photos.length]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      // Typing a comment
+      if ((e.target as HTMLElement).closest('input, textarea')) return;
+      if (e.key === 'ArrowRight') goRef.current(1);
+      else if (e.key === 'ArrowLeft') goRef.current(-1);
+      else if (e.key === 'Escape') onClose();
+      else if (e.key === ' ') setIsPlaying(prev => !prev);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  // Photos advance on a timer; videos advance when they finish
+  useEffect(() => {
+    if (!isPlaying || !photo || photo.mediaType === 'video') return;
+    const timer = setTimeout(() => goRef.current(1), SLIDE_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, photo?.id]);
+
+  if (!photo) return null;
+
+  const author = authorName(photo);
+  const thread = social?.threads[photo.id];
+  const commentCount = thread?.comments.length ?? photo.commentCount;
+  const navButtonClass = "absolute top-1/2 -translate-y-1/2 w-12 h-12 rounded-full bg-black/40 text-white/70 hover:text-white hover:bg-white/10 flex items-center justify-center transition-colors disabled:opacity-20";
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/95 flex flex-col select-none">
+      <div className="flex items-center justify-between p-4 text-white/70 font-mono text-xs">
+        <span className="tracking-widest">{index + 1} / {photos.length}</span>
+        <div className="flex items-center gap-2">
+          {social && (
+            <button
+              onClick={() => setIsThreadOpen(prev => !prev)}
+              className={`h-10 px-3 rounded-full hover:bg-white/10 hover:text-white flex items-center gap-2 ${isThreadOpen ? 'text-accent' : ''}`}
+              title={isThreadOpen ? 'Hide comments' : 'Reactions and comments'}
+            >
+              <i className="fas fa-comment" />{commentCount ? commentCount : ''}
+            </button>
+          )}
+          <button
+            onClick={() => setIsPlaying(prev => !prev)}
+            className="w-10 h-10 rounded-full hover:bg-white/10 hover:text-white flex items-center justify-center"
+            title={isPlaying ? 'Pause slideshow' : 'Play slideshow'}
+          >
+            <i className={`fas ${isPlaying ? 'fa-pause' : 'fa-play'}`} />
+          </button>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 rounded-full hover:bg-white/10 hover:text-white flex items-center justify-center"
+            title="Close"
+          >
+            <i className="fas fa-times text-lg" />
+          </button>
+        </div>
+      </div>
+
+      <div className="relative flex-1 flex min-h-0">
+        <div className="flex-1 flex flex-col min-w-0">
+          <div
+            className="relative flex-1 flex items-center justify-center px-4 min-h-0 touch-none"
+            onPointerDown={(e) => { swipeStart.current = e.clientX; }}
+            onPointerUp={(e) => {
+              if (swipeStart.current === null) return;
+              const dx = e.clientX - swipeStart.current;
+              swipeStart.current = null;
+              if (Math.abs(dx) > SWIPE_PX) go(dx < 0 ? 1 : -1);
+            }}
+            onPointerCancel={() => { swipeStart.current = null; }}
+          >
+            <LightboxMedia photo={photo} isPlaying={isPlaying} onEnded={() => isPlaying && go(1)} />
+            <button onClick={() => go(-1)} disabled={index === 0} className={`${navButtonClass} left-4 hidden sm:flex`} title="Previous">
+              <i className="fas fa-chevron-left" />
+            </button>
+            <button onClick={() => go(1)} disabled={index === photos.length - 1 && !isPlaying} className={`${navButtonClass} right-4 hidden sm:flex`} title="Next">
+              <i className="fas fa-chevron-right" />
+            </button>
+          </div>
+
+          <div className="p-4 text-center">
+            <p className="font-hand text-3xl text-white">{photo.caption || ''}</p>
+            <p className="font-mono text-[10px] text-white/40 uppercase tracking-widest mt-1">
+              {author && `${author} · `}{formatPhotoDate(photo.timestamp)}
+            </p>
+            <ReactionStamps reactions={thread?.reactions ?? photo.reactions} className="justify-center mt-2" />
+          </div>
+        </div>
+
+        {social && isThreadOpen && (
+          <aside className="absolute sm:static inset-x-0 bottom-0 h-1/2 sm:h-auto sm:w-80 flex flex-col p-4 bg-black/90 sm:bg-transparent border-t sm:border-t-0 sm:border-l border-white/10 select-text">
+            <PhotoThreadPanel photo={photo} social={social} tone="dark" />
+          </aside>
+        )}
+      </div>
+    </div>
+  );
+};
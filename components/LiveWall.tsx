@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Photo } from '../types';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { useClipRange } from '../hooks/useClipRange';
+import { getFilmStock } from '../services/filmFilters';
+import { FRAME_ASPECTS, isDarkColor } from '../services/filmPacks';
+import { formatPhotoDate } from '../services/photoService';
+import { fetchWallPhotos, fetchWallRoom } from '../services/wallService';
+import { PhotoLayers } from './PhotoLayers';
+
+interface LiveWallProps {
+  room: string;
+  // View-only token from the wall link; it was already put on the client's requests
+  token: string | null;
+}
+
+type WallAccess = 'checking' | 'open' | 'invalid';
+
+// A wall has no account to hear the room's realtime changes with, so it checks for new photos
+const POLL_MS = 4000;
+// Same as a card developing on the board
+const DEVELOP_MS = 5200;
+// A recent photo is shown big for a while, then the whole wall again, then the next one
+const SPOTLIGHT_MS = 7000;
+const REST_MS = 6000;
+const SPOTLIGHT_RECENT = 8;
+
+// Board card size (w-52 h-[21rem]) and the space around each one
+const CARD_WIDTH = 208;
+const CARD_HEIGHT = 336;
+const CARD_GAP = 32;
+// A near-empty wall shouldn't blow a single card up to the size of the screen
+const MAX_ZOOM = 2.5;
+
+// The column count that gives the biggest cards with every one of them on screen
+const fitGrid = (count: number, width: number, height: number) => {
+  const cellWidth = CARD_WIDTH + CARD_GAP;
+  const cellHeight = CARD_HEIGHT + CARD_GAP;
+  let best = { cols: 1, zoom: 0 };
+  for (let cols = 1; cols <= Math.max(1, count); cols++) {
+    const rows = Math.ceil(Math.max(1, count) / cols);
+    const zoom = Math.min(width / (cols * cellWidth), height / (rows * cellHeight), MAX_ZOOM);
+    if (zoom > best.zoom) best = { cols, zoom };
+  }
+  return best;
+};
+
+const WallCard: React.FC<{ photo: Photo }> = ({ photo }) => {
+  const mediaUrl = useMediaUrl(photo);
+  const clipRange = useClipRange(photo);
+  const filmStock = getFilmStock(photo.filterId);
+  const borderColor = photo.borderColor || '#ffffff';
+  const isDarkFrame = isDarkColor(borderColor);
+  const frameRatio = FRAME_ASPECTS[photo.aspect ?? 'square'];
+
+  return (
+    <div className="w-52 h-[21rem] p-3 pb-8 shadow-xl polaroid-shadow flex flex-col" style={{ backgroundColor: borderColor }}>
+      <div
+        className={`bg-black overflow-hidden relative mb-3 border shrink-0 self-center max-w-full ${isDarkFrame ? 'border-gray-800' : 'border-gray-100'}`}
+        style={{ aspectRatio: frameRatio, width: frameRatio < 1 ? 'auto' : '100%', height: frameRatio < 1 ? '75%' : 'auto' }}
+      >
+        {!mediaUrl ? null : photo.mediaType === 'video' ? (
+          <video
+            src={mediaUrl}
+            autoPlay
+            loop
+            muted
+            playsInline
+            {...clipRange}
+            className="w-full h-full object-cover"
+            style={{ filter: filmStock.previewCss || undefined, transform: photo.mirrored ? 'scaleX(-1)' : undefined }}
+          />
+        ) : (
+          <img src={mediaUrl} alt={photo.caption || 'Photo'} className={`w-full h-full object-cover ${photo.isDeveloping ? 'animate-develop-negative' : ''}`} />
+        )}
+        {!photo.isDeveloping && <PhotoLayers layers={photo.layers ?? []} ratio={frameRatio} />}
+        <div className="absolute inset-0 bg-[url('https://www.transparenttextures.com/patterns/dust.png')] opacity-30 mix-blend-overlay" />
+      </div>
+      <div className="text-center flex-1 flex flex-col justify-center items-center">
+        <p className={`font-hand text-2xl leading-none ${isDarkFrame ? 'text-gray-100' : 'text-gray-800'}`}>{photo.caption || ''}</p>
+        <p className={`font-mono text-[10px] mt-1 uppercase tracking-widest ${isDarkFrame ? 'text-gray-500' : 'text-gray-400'}`}>{formatPhotoDate(photo.timestamp)}</p>
+      </div>
+    </div>
+  );
+};
+
+// The room's photos for a projector: no camera, no controls, nothing to sign in to
+export const LiveWall: React.FC<LiveWallProps> = ({ room, token }) => {
+  const [access, setAccess] = useState<WallAccess>(token ? 'checking' : 'invalid');
+  const [photos, setPhotos] = useState<Photo[]>([]);
+  const [screen, setScreen] = useState({ width: window.innerWidth, height: window.innerHeight });
+  const [spotlightId, setSpotlightId] = useState<string | null>(null);
+  // New arrivals jump the spotlight queue; otherwise it cycles through the newest few
+  const arrivalsRef = useRef<string[]>([]);
+  const cycleRef = useRef(0);
+
+  useEffect(() => {
+    if (!token) return;
+    let ignore = false;
+    fetchWallRoom()
+      .then(wallRoom => { if (!ignore) setAccess(wallRoom === room ? 'open' : 'invalid'); })
+      .catch(err => {
+        console.error("Error checking wall link:", err);
+        if (!ignore) setAccess('invalid');
+      });
+    return () => { ignore = true; };
+  }, [room, token]);
+
+  useEffect(() => {
+    const handleResize = () => setScreen({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // Photos that weren't there last time develop in place; ones that were trashed or
+  // rejected since simply drop out
+  useEffect(() => {
+    if (access !== 'open') return;
+
+    let ignore = false;
+    let isFirstLoad = true;
+    const refresh = async () => {
+      try {
+        const latest = await fetchWallPhotos(room);
+        if (ignore) return;
+        setPhotos(prev => {
+          const known = new Set(prev.map(p => p.id));
+          const arrived = isFirstLoad ? [] : latest.filter(p => !known.has(p.id)).map(p => p.id);
+          if (arrived.length > 0) {
+            arrivalsRef.current = [...arrived, ...arrivalsRef.current];
+            setTimeout(() => {
+              setPhotos(curr => curr.map(p => arrived.includes(p.id) ? { ...p, isDeveloping: false } : p));
+            }, DEVELOP_MS);
+          }
+          const developing = new Set(prev.filter(p => p.isDeveloping).map(p => p.id));
+          return latest.map(p => arrived.includes(p.id) || developing.has(p.id) ? { ...p, isDeveloping: true } : p);
+        });
+        isFirstLoad = false;
+      } catch (err) {
+        console.error("Error loading wall photos:", err);
+      }
+    };
+
+    refresh();
+    const interval = setInterval(refresh, POLL_MS);
+    return () => {
+      ignore = true;
+      clearInterval(interval);
+    };
+  }, [access, room]);
+
+  // A new photo cuts the rest short and takes the spotlight straight away
+  const hasArrivals = photos.some(p => arrivalsRef.current.includes(p.id));
+  useEffect(() => {
+    if (photos.length === 0) return;
+    const showing = spotlightId !== null && photos.some(p => p.id === spotlightId);
+
+    const timer = setTimeout(() => {
+      if (showing) {
+        setSpotlightId(null);
+        return;
+      }
+      const next = arrivalsRef.current.shift();
+      if (next && photos.some(p => p.id === next)) {
+        setSpotlightId(next);
+        return;
+      }
+      const recent = photos.slice(0, SPOTLIGHT_RECENT);
+      setSpotlightId(recent[cycleRef.current++ % recent.length].id);
+    }, showing ? SPOTLIGHT_MS : hasArrivals ? 0 : REST_MS);
+    return () => clearTimeout(timer);
+  }, [spotlightId, photos.length > 0, hasArrivals]);
+
+  if (access !== 'open') {
+    return (
+      <div className="h-[100dvh] w-full bg-stone-900 flex items-center justify-center">
+        <p className="font-mono text-xs text-white/40 uppercase tracking-widest">
+          {access === 'checking' ? 'Loading...' : 'This wall link is not valid'}
+        </p>
+      </div>
+    );
+  }
+
+  const { cols, zoom } = fitGrid(photos.length, screen.width, screen.height);
+  const rows = Math.ceil(Math.max(1, photos.length) / cols);
+  const spotlight = photos.find(p => p.id === spotlightId);
+  const spotlightZoom = Math.min((screen.height * 0.85) / CARD_HEIGHT, (screen.width * 0.6) / CARD_WIDTH);
+
+  return (
+    <div className="relative h-[100dvh] w-full bg-stone-900 overflow-hidden cursor-none select-none">
+      <div className="absolute inset-0 bg-cover bg-center bg-no-repeat" style={{ backgroundImage: "url('/bg.png')" }} />
+      <div className="absolute inset-0 bg-black/30" />
+
+      {photos.length === 0 && (
+        <p className="absolute inset-0 flex items-center justify-center font-fredericka text-white/60 text-4xl tracking-widest">
+          Waiting for the first photo...
+        </p>
+      )}
+
+      <div className="absolute inset-0 flex items-center justify-center">
+        <div
+          className="relative shrink-0"
+          style={{
+            width: cols * (CARD_WIDTH + CARD_GAP),
+            height: rows * (CARD_HEIGHT + CARD_GAP),
+            transform: `scale(${zoom})`,
+            transition: 'transform 0.7s ease-out',
+          }}
+        >
+          {photos.map((photo, i) => (
+            <div
+              key={photo.id}
+              className="absolute"
+              style={{
+                left: (i % cols) * (CARD_WIDTH + CARD_GAP) + CARD_GAP / 2,
+                top: Math.floor(i / cols) * (CARD_HEIGHT + CARD_GAP) + CARD_GAP / 2,
+                transform: `rotate(${Math.max(-6, Math.min(6, photo.rotation))}deg)`,
+                transition: 'left 0.7s ease-out, top 0.7s ease-out',
+              }}
+            >
+              <WallCard photo={photo} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {spotlight && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+          <div key={spotlight.id} className="animate-develop" style={{ transform: `scale(${spotlightZoom}) rotate(-2deg)` }}>
+            <WallCard photo={spotlight} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
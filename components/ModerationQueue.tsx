@@ -0,0 +1,101 @@
+import React from 'react';
+import { Photo } from '../types';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { formatPhotoDate } from '../services/photoService';
+
+interface ModerationQueueProps {
+  isOpen: boolean;
+  photos: Photo[];
+  isLoading: boolean;
+  authorName: (photo: Photo) => string | null;
+  onClose: () => void;
+  onReview: (photos: Photo[], approve: boolean) => void;
+}
+
+const QueueItem: React.FC<{ photo: Photo; author: string | null; onApprove: () => void; onReject: () => void }> = ({ photo, author, onApprove, onReject }) => {
+  const mediaUrl = useMediaUrl(photo);
+
+  return (
+    <div className="bg-white p-2 pb-3 shadow-md flex flex-col gap-2">
+      <div className="aspect-square bg-black overflow-hidden">
+        {mediaUrl && (photo.mediaType === 'video'
+          ? <video src={mediaUrl} muted playsInline controls className={`w-full h-full object-cover ${photo.mirrored ? '-scale-x-100' : ''}`} />
+          : <img src={mediaUrl} alt={photo.caption || 'Photo waiting for review'} className="w-full h-full object-cover" />)}
+      </div>
+      <p className="font-hand text-lg text-gray-800 leading-none text-center truncate">{photo.caption || ''}</p>
+      <p className="font-mono text-[9px] text-gray-400 text-center uppercase tracking-widest truncate">
+        {author && `${author} · `}{formatPhotoDate(photo.timestamp)}
+      </p>
+      {photo.flags && (
+        <ul className="flex flex-wrap justify-center gap-1">
+          {photo.flags.map(flag => (
+            <li key={flag} className="px-1.5 rounded-full bg-amber-100 text-amber-700 font-mono text-[9px] uppercase tracking-wider">
+              <i className="fas fa-flag mr-1" />{flag}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex justify-between font-mono text-[10px] uppercase tracking-wider">
+        <button onClick={onApprove} className="text-green-600 hover:text-green-800">
+          <i className="fas fa-check mr-1" />Approve
+        </button>
+        <button onClick={onReject} className="text-red-500 hover:text-red-700">
+          <i className="fas fa-ban mr-1" />Reject
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const ModerationQueue: React.FC<ModerationQueueProps> = ({ isOpen, photos, isLoading, authorName, onClose, onReview }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-[#f0f0f0] w-full max-w-2xl max-h-[85vh] p-6 rounded-sm shadow-2xl relative border-4 border-white outline outline-1 outline-gray-300 flex flex-col">
+        <button
+          onClick={onClose}
+          className="absolute top-2 right-2 text-gray-500 hover:text-gray-800"
+        >
+          <i className="fas fa-times text-xl"></i>
+        </button>
+
+        <div className="text-center mb-4 border-b-2 border-gray-300 pb-4">
+          <h2 className="font-mono text-2xl text-gray-800 tracking-widest uppercase font-bold">Review</h2>
+          <p className="font-hand text-gray-500 text-lg mt-1">Only moderators and the photographer see these until they're reviewed</p>
+        </div>
+
+        <div className="overflow-y-auto hide-scrollbar flex-1">
+          {isLoading ? (
+            <p className="font-mono text-xs text-gray-500 text-center py-8 uppercase tracking-widest">Loading...</p>
+          ) : photos.length === 0 ? (
+            <p className="font-mono text-xs text-gray-500 text-center py-8 uppercase tracking-widest">Nothing waiting</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {photos.map(photo => (
+                <QueueItem
+                  key={photo.id}
+                  photo={photo}
+                  author={authorName(photo)}
+                  onApprove={() => onReview([photo], true)}
+                  onReject={() => onReview([photo], false)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {photos.length > 1 && (
+          <button
+            onClick={() => onReview(photos.filter(p => !p.flags), true)}
+            disabled={photos.every(p => p.flags)}
+            className="mt-4 bg-gray-800 text-white font-mono uppercase tracking-widest py-3 hover:bg-accent transition-colors disabled:opacity-50"
+            title="Flagged photos stay in the queue"
+          >
+            Approve All Unflagged
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
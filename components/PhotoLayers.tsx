@@ -0,0 +1,63 @@
+import React from 'react';
+import { PhotoLayer } from '../types';
+
+interface PhotoLayersProps {
+  layers: PhotoLayer[];
+  // Image width / height, so doodles keep their shape
+  ratio: number;
+  className?: string;
+}
+
+// Doodles are drawn in a box this many units wide
+export const DOODLE_VIEW_WIDTH = 1000;
+
+export const doodlePath = (points: [number, number][], width: number, height: number) =>
+  points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${(x * width).toFixed(1)} ${(y * height).toFixed(1)}`).join(' ');
+
+// Sticker and text sizes are a fraction of the image width, so they are set in container units
+export const layerStyle = (layer: Extract<PhotoLayer, { x: number }>): React.CSSProperties => ({
+  left: `${layer.x * 100}%`,
+  top: `${layer.y * 100}%`,
+  fontSize: `${layer.size * 100}cqw`,
+  transform: `translate(-50%, -50%) rotate(${layer.rotation}deg)`,
+});
+
+// Everything drawn over a photo's image, scaled to whatever box it is placed in
+export const PhotoLayers: React.FC<PhotoLayersProps> = ({ layers, ratio, className = '' }) => {
+  if (layers.length === 0) return null;
+  const viewHeight = DOODLE_VIEW_WIDTH / ratio;
+
+  return (
+    <div className={`absolute inset-0 pointer-events-none overflow-hidden ${className}`} style={{ containerType: 'inline-size' }}>
+      {/* In order, so later layers sit on top */}
+      {layers.map(layer => {
+        if (layer.type === 'doodle') {
+          return (
+            <svg key={layer.id} className="absolute inset-0 w-full h-full" viewBox={`0 0 ${DOODLE_VIEW_WIDTH} ${viewHeight}`} preserveAspectRatio="none">
+              <path
+                d={doodlePath(layer.points, DOODLE_VIEW_WIDTH, viewHeight)}
+                stroke={layer.color}
+                strokeWidth={layer.width * DOODLE_VIEW_WIDTH}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                fill="none"
+              />
+            </svg>
+          );
+        }
+        if (layer.type === 'sticker') {
+          return (
+            <span key={layer.id} className="absolute leading-none whitespace-nowrap" style={layerStyle(layer)}>
+              {layer.emoji}
+            </span>
+          );
+        }
+        return (
+          <span key={layer.id} className="absolute font-hand leading-none whitespace-nowrap drop-shadow" style={{ ...layerStyle(layer), color: layer.color }}>
+            {layer.text}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { Photo, PhotoComment, PhotoReactions, PhotoThread } from '../types';
+import { REACTION_EMOJIS } from '../services/reactionService';
+import { COMMENT_MAX_LENGTH } from '../services/commentService';
+import { formatPhotoDate } from '../services/photoService';
+
+// What a room member can do with the photos they look at. The app hands this to cards
+// and the lightbox, and keeps the threads live through the room channel.
+export interface PhotoSocial {
+  userId: string;
+  threads: Record<string, PhotoThread>;
+  loadThread: (photoId: string) => void;
+  react: (photo: Photo, emoji: string) => void;
+  // Resolves to whether the comment was posted
+  comment: (photoId: string, body: string, parentId?: string) => Promise<boolean>;
+  deleteComment: (comment: PhotoComment) => void;
+}
+
+// Cards are light paper; the lightbox is dark
+type Tone = 'light' | 'dark';
+
+// Replies deeper than this line up with their parent instead of stepping in further
+const MAX_INDENT = 3;
+const MAX_STAMPS = 4;
+
+const byCount = (reactions: PhotoReactions) =>
+  Object.entries(reactions).filter(([, userIds]) => userIds.length > 0).sort((a, b) => b[1].length - a[1].length);
+
+// The most used reactions, stamped onto the frame
+export const ReactionStamps: React.FC<{ reactions?: PhotoReactions; className?: string }> = ({ reactions, className = '' }) => {
+  const stamps = byCount(reactions ?? {}).slice(0, MAX_STAMPS);
+  if (stamps.length === 0) return null;
+
+  return (
+    <div className={`flex gap-0.5 pointer-events-none ${className}`}>
+      {stamps.map(([emoji, userIds], i) => (
+        <span
+          key={emoji}
+          className="flex items-center gap-0.5 px-1 rounded-full bg-white/90 border border-gray-300 shadow-sm font-mono text-[9px] leading-4 text-gray-600"
+          style={{ transform: `rotate(${i % 2 ? 6 : -6}deg)` }}
+        >
+          <span className="text-[11px]">{emoji}</span>
+          {userIds.length > 1 && userIds.length}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+const ReactionBar: React.FC<{ reactions: PhotoReactions; userId: string; onToggle: (emoji: string) => void; tone: Tone }> = ({ reactions, userId, onToggle, tone }) => (
+  <div className="flex flex-wrap justify-center gap-1">
+    {REACTION_EMOJIS.map(emoji => {
+      const count = reactions[emoji]?.length ?? 0;
+      const isMine = !!reactions[emoji]?.includes(userId);
+      const idle = tone === 'light' ? 'border-gray-300 text-gray-500 hover:border-gray-500' : 'border-white/10 text-white/60 hover:border-white/40';
+      return (
+        <button
+          key={emoji}
+          onClick={() => onToggle(emoji)}
+          className={`flex items-center gap-0.5 px-1.5 rounded-full border font-mono text-[10px] leading-5 transition-colors ${isMine ? 'border-accent bg-accent/10 text-accent' : idle}`}
+          title={isMine ? 'Take back' : 'React'}
+        >
+          <span className="text-xs">{emoji}</span>
+          {count > 0 && count}
+        </button>
+      );
+    })}
+  </div>
+);
+
+const CommentThread: React.FC<{
+  comments?: PhotoComment[];
+  userId: string;
+  onPost: (body: string, parentId?: string) => Promise<boolean>;
+  onDelete: (comment: PhotoComment) => void;
+  tone: Tone;
+}> = ({ comments, userId, onPost, onDelete, tone }) => {
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<PhotoComment | null>(null);
+  const [isPosting, setIsPosting] = useState(false);
+
+  const muted = tone === 'light' ? 'text-gray-400' : 'text-white/40';
+  const text = tone === 'light' ? 'text-gray-700' : 'text-white/90';
+
+  const submit = async () => {
+    const body = draft.trim();
+    if (!body || isPosting) return;
+    setIsPosting(true);
+    try {
+      if (await onPost(body, replyTo?.id)) {
+        setDraft('');
+        setReplyTo(null);
+      }
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  // Replies whose parent is gone (or not loaded yet) are shown at the top level
+  const ids = new Set(comments?.map(c => c.id));
+  const childrenOf = (parentId: string | undefined) =>
+    (comments ?? []).filter(c => parentId ? c.parentId === parentId : !c.parentId || !ids.has(c.parentId));
+
+  const renderComment = (comment: PhotoComment, depth: number): React.ReactNode => (
+    <li key={comment.id}>
+      <div className={`${depth > 0 ? `border-l-2 pl-2 ${tone === 'light' ? 'border-gray-200' : 'border-white/10'}` : ''}`}>
+        <p className={`font-mono text-[9px] uppercase tracking-widest ${muted}`}>
+          {comment.authorName || 'Someone'} · {formatPhotoDate(comment.createdAt)}
+        </p>
+        <p className={`font-hand text-lg leading-tight break-words ${text}`}>{comment.body}</p>
+        <div className={`flex gap-2 font-mono text-[9px] uppercase tracking-widest ${muted}`}>
+          <button onClick={() => setReplyTo(comment)} className="hover:text-accent">Reply</button>
+          {comment.userId === userId && (
+            <button onClick={() => onDelete(comment)} className="hover:text-red-500">Delete</button>
+          )}
+        </div>
+      </div>
+      {childrenOf(comment.id).length > 0 && (
+        <ul className={`flex flex-col gap-2 mt-2 ${depth < MAX_INDENT ? 'ml-2' : ''}`}>
+          {childrenOf(comment.id).map(reply => renderComment(reply, depth + 1))}
+        </ul>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="flex flex-col gap-2 min-h-0 flex-1 w-full">
+      <div className="flex-1 min-h-0 overflow-y-auto hide-scrollbar">
+        {!comments ? (
+          <p className={`font-mono text-[10px] uppercase tracking-widest text-center ${muted}`}>Loading...</p>
+        ) : comments.length === 0 ? (
+          <p className={`font-hand text-lg text-center ${muted}`}>No comments yet</p>
+        ) : (
+          <ul className="flex flex-col gap-2">
+            {childrenOf(undefined).map(comment => renderComment(comment, 0))}
+          </ul>
+        )}
+      </div>
+
+      {replyTo && (
+        <div className={`flex items-center justify-between font-mono text-[9px] uppercase tracking-widest ${muted}`}>
+          <span className="truncate">Replying to {replyTo.authorName || 'someone'}</span>
+          <button onClick={() => setReplyTo(null)} className="hover:text-accent" title="Cancel reply">
+            <i className="fas fa-times" />
+          </button>
+        </div>
+      )}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit();
+        }}
+        className={`flex items-center gap-1 border-b ${tone === 'light' ? 'border-gray-300' : 'border-white/20'}`}
+      >
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={COMMENT_MAX_LENGTH}
+          placeholder={replyTo ? 'Write a reply...' : 'Say something...'}
+          className={`flex-1 min-w-0 bg-transparent outline-none font-hand text-lg py-0.5 ${text} ${tone === 'light' ? 'placeholder:text-gray-300' : 'placeholder:text-white/20'}`}
+        />
+        <button type="submit" disabled={!draft.trim() || isPosting} className={`${muted} hover:text-accent disabled:opacity-40`} title="Post">
+          <i className={`fas ${isPosting ? 'fa-spinner fa-spin' : 'fa-paper-plane'} text-xs`} />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+// Reactions and comments for one photo, loaded the first time it is shown
+export const PhotoThreadPanel: React.FC<{ photo: Photo; social: PhotoSocial; tone?: Tone }> = ({ photo, social, tone = 'light' }) => {
+  const thread = social.threads[photo.id];
+
+  useEffect(() => {
+    social.loadThread(photo.id);
+  }, [photo.id]);
+
+  return (
+    <div className="flex flex-col gap-3 min-h-0 flex-1 w-full">
+      <ReactionBar
+        reactions={thread?.reactions ?? photo.reactions ?? {}}
+        userId={social.userId}
+        onToggle={(emoji) => social.react(photo, emoji)}
+        tone={tone}
+      />
+      <CommentThread
+        comments={thread?.comments}
+        userId={social.userId}
+        onPost={(body, parentId) => social.comment(photo.id, body, parentId)}
+        onDelete={social.deleteComment}
+        tone={tone}
+      />
+    </div>
+  );
+};
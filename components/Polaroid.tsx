@@ -1,32 +1,101 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Photo } from '../types';
+import { createPortal } from 'react-dom';
+import { Photo, PhotoLayer } from '../types';
+import { getFilmStock } from '../services/filmFilters';
+import { FRAME_ASPECTS, isDarkColor } from '../services/filmPacks';
+import { formatPhotoDate } from '../services/photoService';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { useClipRange } from '../hooks/useClipRange';
+import { PhotoLayers } from './PhotoLayers';
+import { LayerEditor } from './LayerEditor';
+import { PhotoSocial, PhotoThreadPanel, ReactionStamps } from './PhotoThread';
+import { QrCode } from './QrCode';
 
 interface PolaroidProps {
   photo: Photo;
   onFocus: (id: string) => void;
+  // Both only fire for a real drag, never for a tap that flips the card
   onDragEnd?: (id: string, x: number, y: number) => void;
   onDragStart?: () => void;
+  // Board cards only: Shift+Left/Right turns the focused card
+  onRotate?: (id: string, rotation: number) => void;
+  // Only passed when the viewer may edit the note; otherwise the back is read-only
+  onNoteChange?: (id: string, note: string) => void;
+  // Likewise only for the owner: draw, stick and write over the image
+  onLayersChange?: (id: string, layers: PhotoLayer[]) => void;
+  // The layer editor takes the keyboard, so the camera's shortcuts stand down while it's open
+  onDecoratingChange?: (isDecorating: boolean) => void;
+  isNoteBeingTyped?: boolean;
+  // Room members can react and comment; the thread is on the back next to the notes
+  social?: PhotoSocial;
+  onExport?: (photo: Photo, side: 'front' | 'back') => void;
+  onDelete?: (photo: Photo) => void;
+  // Only passed for the pending photo: tap the caption to pick another before it develops
+  captionOptions?: string[];
+  isCaptionLoading?: boolean;
+  onPickCaption?: (caption: string) => void;
+  onRegenerateCaption?: () => void;
+  // Kiosk prints carry a code guests can scan to find the photo in the room gallery
+  qrUrl?: string;
+  // Cards on the board have one size in board units and are drawn at the view's zoom,
+  // so drag distances are divided by it. The pending card sits on the screen instead.
+  size?: 'board' | 'screen';
+  zoom?: number;
   className?: string;
 }
 
-const Polaroid: React.FC<PolaroidProps> = ({ photo, onFocus, onDragEnd, onDragStart, className = '' }) => {
-  const dateStr = new Date(photo.timestamp).toLocaleString(undefined, {
-    year: '2-digit',
-    month: 'short',
-    day: 'numeric',
-    hour: '2-digit',
-    minute: '2-digit',
-    hour12: false
-  });
-
-  // We initialize state from props, but we don't sync it back to props automatically 
-  // unless the key changes (remounting) or we explicitly want to reset.
+// A focused card moves this many screen pixels per arrow press, and turns this many degrees
+const KEY_MOVE_STEP = 20;
+const KEY_ROTATE_STEP = 5;
+// Held arrows move the card in steps; it's dropped where it stops
+const KEY_DROP_DELAY_MS = 400;
+
+const ARROW_STEPS: Record<string, { dx: number; dy: number }> = {
+  ArrowLeft: { dx: -1, dy: 0 },
+  ArrowRight: { dx: 1, dy: 0 },
+  ArrowUp: { dx: 0, dy: -1 },
+  ArrowDown: { dx: 0, dy: 1 },
+};
+
+const Polaroid: React.FC<PolaroidProps> = ({ photo, onFocus, onDragEnd, onDragStart, onRotate, onNoteChange, onLayersChange, onDecoratingChange, isNoteBeingTyped = false, social, onExport, onDelete, captionOptions, isCaptionLoading = false, onPickCaption, onRegenerateCaption, qrUrl, size = 'screen', zoom = 1, className = '' }) => {
+  const filmStock = getFilmStock(photo.filterId);
+  const borderColor = photo.borderColor || '#ffffff';
+  const isDarkFrame = isDarkColor(borderColor);
+  const frameRatio = FRAME_ASPECTS[photo.aspect ?? 'square'];
+
+  const dateStr = formatPhotoDate(photo.timestamp);
+
+  // Position is local while dragging, and follows props otherwise so moves
+  // made by other people in the room show up on this card.
   const [position, setPosition] = useState({ x: photo.x, y: photo.y });
   const [isDragging, setIsDragging] = useState(false);
+
+  useEffect(() => {
+    if (!isDragging) setPosition({ x: photo.x, y: photo.y });
+  }, [photo.x, photo.y]);
   const [isFlipped, setIsFlipped] = useState(false);
   const [note, setNote] = useState(photo.backNote || "");
+  const [isEditingNote, setIsEditingNote] = useState(false);
+  const [isCaptionMenuOpen, setIsCaptionMenuOpen] = useState(false);
+  const [isDecorating, setIsDecorating] = useState(false);
+  useEffect(() => {
+    if (!isDecorating) return;
+    onDecoratingChange?.(true);
+    return () => onDecoratingChange?.(false);
+  }, [isDecorating]);
+  const [backTab, setBackTab] = useState<'notes' | 'comments'>('notes');
+
+  // Pick up notes written by the owner elsewhere, but never under our own cursor
+  useEffect(() => {
+    if (!isEditingNote) setNote(photo.backNote || "");
+  }, [photo.backNote]);
 
-  const dragOffset = useRef({ x: 0, y: 0 });
+  const commentCount = social?.threads[photo.id]?.comments.length ?? photo.commentCount;
+
+  const mediaUrl = useMediaUrl(photo);
+  const clipRange = useClipRange(photo);
+
+  const dragOrigin = useRef({ x: 0, y: 0 });
   const dragStartTime = useRef(0);
   const dragStartPos = useRef({ x: 0, y: 0 });
   const elementRef = useRef<HTMLDivElement>(null);
@@ -45,17 +114,10 @@ const Polaroid: React.FC<PolaroidProps> = ({ photo, onFocus, onDragEnd, onDragSt
 
     onFocus(photo.id);
     setIsDragging(true);
-    if (onDragStart) onDragStart();
     hasMoved.current = false;
     dragStartPos.current = { x: clientX, y: clientY };
 
-    if (elementRef.current) {
-      const rect = elementRef.current.getBoundingClientRect();
-      dragOffset.current = {
-        x: clientX - position.x,
-        y: clientY - position.y
-      };
-    }
+    dragOrigin.current = position;
 
     // Define listeners
     const handleWindowMove = (e: MouseEvent | TouchEvent) => {
@@ -63,15 +125,16 @@ const Polaroid: React.FC<PolaroidProps> = ({ photo, onFocus, onDragEnd, onDragSt
       const cx = 'touches' in e ? e.touches[0].clientX : (e as MouseEvent).clientX;
       const cy = 'touches' in e ? e.touches[0].clientY : (e as MouseEvent).clientY;
 
-      const newX = cx - dragOffset.current.x;
-      const newY = cy - dragOffset.current.y;
+      const newX = dragOrigin.current.x + (cx - dragStartPos.current.x) / zoom;
+      const newY = dragOrigin.current.y + (cy - dragStartPos.current.y) / zoom;
 
       setPosition({ x: newX, y: newY });
 
       // Check if moved enough to consider it a drag
       const dist = Math.sqrt(Math.pow(cx - dragStartPos.current.x, 2) + Math.pow(cy - dragStartPos.current.y, 2));
-      if (dist > 5) {
+      if (dist > 5 && !hasMoved.current) {
         hasMoved.current = true;
+        if (onDragStart) onDragStart();
       }
     };
 
@@ -101,7 +164,10 @@ const Polaroid: React.FC<PolaroidProps> = ({ photo, onFocus, onDragEnd, onDragSt
       // To get fresh value we'd need a ref for position too.
       // Let's add a positionRef to track it synchronously.
 
-      if (onDragEnd) {
+      // A tap or a flip isn't a move: the card stays where it was and nothing is saved
+      if (!hasMoved.current) {
+        setPosition(dragOrigin.current);
+      } else if (onDragEnd) {
         // We'll use the current position from the ref (added below)
         onDragEnd(photo.id, positionRef.current.x, positionRef.current.y);
       }
@@ -139,10 +205,39 @@ const Polaroid: React.FC<PolaroidProps> = ({ photo, onFocus, onDragEnd, onDragSt
     positionRef.current = position;
   }, [position]);
 
+  const keyDropTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  useEffect(() => () => clearTimeout(keyDropTimerRef.current), []);
+
+  // The keyboard version of dragging and tapping. Keys pressed in the note or the
+  // caption menu belong to them, so only presses on the card itself count.
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target !== e.currentTarget || photo.isEjecting) return;
+
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      if (!photo.isDeveloping) setIsFlipped(prev => !prev);
+      return;
+    }
+
+    const step = ARROW_STEPS[e.key];
+    if (!step) return;
+    e.preventDefault();
+
+    if (e.shiftKey && step.dx !== 0) {
+      onRotate?.(photo.id, photo.rotation + step.dx * KEY_ROTATE_STEP);
+      return;
+    }
+
+    if (!onDragEnd) return;
+    setPosition(prev => ({ x: prev.x + step.dx * KEY_MOVE_STEP / zoom, y: prev.y + step.dy * KEY_MOVE_STEP / zoom }));
+    clearTimeout(keyDropTimerRef.current);
+    keyDropTimerRef.current = setTimeout(() => onDragEnd(photo.id, positionRef.current.x, positionRef.current.y), KEY_DROP_DELAY_MS);
+  };
+
   return (
     <div
       ref={elementRef}
-      className={`absolute w-44 sm:w-52 h-[18rem] sm:h-[21rem] select-none transition-shadow duration-300 ${className} ${isDragging ? 'z-[1000] scale-105' : ''}`}
+      className={`absolute ${size === 'board' ? 'w-52 h-[21rem]' : 'w-44 sm:w-52 h-[18rem] sm:h-[21rem]'} select-none outline-none focus-visible:ring-4 focus-visible:ring-accent transition-shadow duration-300 ${className} ${isDragging ? 'z-[1000] scale-105' : ''}`}
       style={{
         left: position.x,
         top: position.y,
@@ -155,6 +250,12 @@ const Polaroid: React.FC<PolaroidProps> = ({ photo, onFocus, onDragEnd, onDragSt
       }}
       onMouseDown={handleMouseDown}
       onTouchStart={handleTouchStart}
+      onKeyDown={handleKeyDown}
+      onFocus={(e) => e.target === e.currentTarget && onFocus(photo.id)}
+      tabIndex={0}
+      role="group"
+      aria-roledescription="photo"
+      aria-label={`${photo.caption || 'Untitled'}, ${dateStr}${photo.isDeveloping ? ', developing' : ''}. ${onDragEnd ? 'Arrow keys move it, ' : ''}${onRotate ? 'Shift with left or right turns it, ' : ''}Enter flips it.`}
     >
       <div
         className="relative w-full h-full transition-transform duration-700 transform-style-3d"
@@ -162,42 +263,101 @@ const Polaroid: React.FC<PolaroidProps> = ({ photo, onFocus, onDragEnd, onDragSt
       >
         {/* FRONT SIDE */}
         <div className="absolute inset-0 backface-hidden">
-          <div className="relative bg-white p-3 pb-8 shadow-xl polaroid-shadow h-full flex flex-col">
+          <div className="relative p-3 pb-8 shadow-xl polaroid-shadow h-full flex flex-col" style={{ backgroundColor: borderColor }}>
             {/* Tape effect - hide if ejecting */}
             {!photo.isEjecting && (
               <div className="absolute -top-3 left-1/2 -translate-x-1/2 w-24 h-8 bg-white/30 backdrop-blur-sm border-l border-r border-white/50 transform -rotate-1 pointer-events-none" />
             )}
 
             {/* Image Area */}
-            <div className="aspect-square bg-black overflow-hidden relative mb-3 border border-gray-100 pointer-events-none shrink-0">
-              {photo.mediaType === 'video' ? (
+            <div
+              className={`bg-black overflow-hidden relative mb-3 border pointer-events-none shrink-0 self-center max-w-full ${isDarkFrame ? 'border-gray-800' : 'border-gray-100'}`}
+              // Portrait frames are sized by height so the caption area keeps its room
+              style={{ aspectRatio: frameRatio, width: frameRatio < 1 ? 'auto' : '100%', height: frameRatio < 1 ? '75%' : 'auto' }}
+            >
+              {!mediaUrl ? null : photo.mediaType === 'video' ? (
                 <video
-                  src={photo.dataUrl}
+                  src={mediaUrl}
                   autoPlay
                   loop
                   muted
                   playsInline
+                  {...clipRange}
                   className="w-full h-full object-cover"
+                  // Clips are recorded straight from the camera, so the stock is applied on playback
+                  style={{ filter: filmStock.previewCss || undefined, transform: photo.mirrored ? 'scaleX(-1)' : undefined }}
                 />
               ) : (
                 <img
-                  src={photo.dataUrl}
+                  src={mediaUrl}
                   alt="Memory"
                   className={`w-full h-full object-cover ${photo.isDeveloping ? 'animate-develop-negative' :
                     photo.isStaticNegative ? 'invert grayscale contrast-[1.2]' : ''
                     }`}
                 />
               )}
+              {!photo.isDeveloping && !photo.isStaticNegative && <PhotoLayers layers={photo.layers ?? []} ratio={frameRatio} />}
+              {photo.status && photo.status !== 'published' && (
+                <div className={`absolute top-2 left-1/2 -translate-x-1/2 -rotate-6 border-2 px-2 bg-black/40 font-mono text-[10px] tracking-widest uppercase whitespace-nowrap ${photo.status === 'pending' ? 'border-amber-400 text-amber-400' : 'border-red-500 text-red-500'}`}>
+                  {photo.status === 'pending' ? 'In review' : 'Rejected'}
+                </div>
+              )}
               <div className="absolute inset-0 bg-[url('https://www.transparenttextures.com/patterns/dust.png')] opacity-30 mix-blend-overlay" />
             </div>
 
             {/* Caption Area */}
             <div className="text-center flex-1 flex flex-col justify-center items-center pointer-events-none">
-              <p className="font-hand text-2xl text-gray-800 leading-none">
-                {photo.caption || ""}
-              </p>
-              <p className="font-mono text-[10px] text-gray-400 mt-1 uppercase tracking-widest">{photo.customText || dateStr}</p>
+              {captionOptions ? (
+                <button
+                  onClick={() => setIsCaptionMenuOpen(open => !open)}
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onTouchStart={(e) => e.stopPropagation()}
+                  className={`font-hand text-2xl leading-none pointer-events-auto hover:text-accent transition-colors ${isDarkFrame ? 'text-gray-100' : 'text-gray-800'} ${isCaptionLoading ? 'animate-pulse' : ''}`}
+                  title="Choose another caption"
+                >
+                  {photo.caption || (isCaptionLoading ? "..." : "")}
+                </button>
+              ) : (
+                <p className={`font-hand text-2xl leading-none ${isDarkFrame ? 'text-gray-100' : 'text-gray-800'}`}>
+                  {photo.caption || ""}
+                </p>
+              )}
+              <p className={`font-mono text-[10px] mt-1 uppercase tracking-widest ${isDarkFrame ? 'text-gray-500' : 'text-gray-400'}`}>{photo.customText || dateStr}</p>
             </div>
+
+            {qrUrl && (
+              <QrCode value={qrUrl} title="Scan to find this photo in the gallery" className="absolute bottom-1.5 left-2 w-10 h-10 pointer-events-none" />
+            )}
+
+            {!photo.isDeveloping && <ReactionStamps reactions={photo.reactions} className="absolute bottom-1.5 right-2" />}
+
+            {captionOptions && isCaptionMenuOpen && (
+              <div
+                className="absolute left-3 right-3 bottom-16 bg-white/95 shadow-lg rounded-sm p-2 flex flex-col gap-1 z-10"
+                onMouseDown={(e) => e.stopPropagation()}
+                onTouchStart={(e) => e.stopPropagation()}
+              >
+                {captionOptions.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => {
+                      onPickCaption?.(option);
+                      setIsCaptionMenuOpen(false);
+                    }}
+                    className={`font-hand text-xl leading-tight text-left px-2 py-1 rounded-sm hover:bg-gray-100 ${option === photo.caption ? 'text-accent' : 'text-gray-800'}`}
+                  >
+                    {option}
+                  </button>
+                ))}
+                <button
+                  onClick={onRegenerateCaption}
+                  disabled={isCaptionLoading}
+                  className="font-mono text-[10px] uppercase tracking-widest text-gray-500 hover:text-accent border-t border-gray-200 pt-1 disabled:opacity-50"
+                >
+                  <i className={`fas fa-redo mr-1 ${isCaptionLoading ? 'fa-spin' : ''}`} />New captions
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
@@ -207,26 +367,107 @@ const Polaroid: React.FC<PolaroidProps> = ({ photo, onFocus, onDragEnd, onDragSt
           style={{ transform: 'rotateY(180deg)' }}
         >
           <div className="w-full h-full border-2 border-dashed border-gray-300 rounded-lg p-4 flex flex-col items-center gap-4 bg-[url('https://www.transparenttextures.com/patterns/cardboard.png')]">
-            <div className="text-gray-400 font-mono text-xs tracking-widest uppercase border-b border-gray-300 pb-1 w-full text-center">
-              Notes
-            </div>
-            <textarea
-              value={note}
-              onChange={(e) => {
-                setNote(e.target.value);
-                photo.backNote = e.target.value; // Direct mutation for simplicity in this context, ideally propagate up
-              }}
-              placeholder="Write a memory..."
-              className="w-full h-full bg-transparent resize-none outline-none font-hand text-xl text-gray-700 leading-relaxed text-center placeholder:text-gray-300"
-              onMouseDown={(e) => e.stopPropagation()} // Allow text interaction without dragging
-              onTouchStart={(e) => e.stopPropagation()}
-            />
-            <div className="text-[10px] text-gray-300 font-mono">
-              {dateStr}
-            </div>
+            {social ? (
+              <div
+                className="flex justify-center gap-3 font-mono text-xs tracking-widest uppercase border-b border-gray-300 pb-1 w-full"
+                onMouseDown={(e) => e.stopPropagation()}
+                onTouchStart={(e) => e.stopPropagation()}
+              >
+                <button onClick={() => setBackTab('notes')} className={backTab === 'notes' ? 'text-gray-500' : 'text-gray-300 hover:text-gray-500'}>
+                  Notes
+                </button>
+                <button onClick={() => setBackTab('comments')} className={backTab === 'comments' ? 'text-gray-500' : 'text-gray-300 hover:text-gray-500'}>
+                  Comments{commentCount ? ` ${commentCount}` : ''}
+                </button>
+              </div>
+            ) : (
+              <div className="text-gray-400 font-mono text-xs tracking-widest uppercase border-b border-gray-300 pb-1 w-full text-center">
+                Notes
+              </div>
+            )}
+            {social && backTab === 'comments' ? (
+              <div
+                className="flex-1 min-h-0 w-full flex flex-col"
+                onMouseDown={(e) => e.stopPropagation()}
+                onTouchStart={(e) => e.stopPropagation()}
+              >
+                <PhotoThreadPanel photo={photo} social={social} />
+              </div>
+            ) : (
+              <textarea
+                value={note}
+                onChange={(e) => {
+                  setNote(e.target.value);
+                  onNoteChange?.(photo.id, e.target.value);
+                }}
+                onFocus={() => setIsEditingNote(true)}
+                onBlur={() => setIsEditingNote(false)}
+                readOnly={!onNoteChange}
+                placeholder={onNoteChange ? "Write a memory..." : "No notes yet"}
+                className="w-full h-full bg-transparent resize-none outline-none font-hand text-xl text-gray-700 leading-relaxed text-center placeholder:text-gray-300"
+                onMouseDown={(e) => e.stopPropagation()} // Allow text interaction without dragging
+                onTouchStart={(e) => e.stopPropagation()}
+              />
+            )}
+            {isNoteBeingTyped && backTab === 'notes' && (
+              <div className="font-hand text-base text-gray-400 animate-pulse">
+                <i className="fas fa-pen-nib mr-1 text-xs" />someone is writing on the back...
+              </div>
+            )}
+            {backTab === 'notes' && (
+              <div className="text-[10px] text-gray-300 font-mono text-center">
+                {filmStock.id !== 'none' && <div className="uppercase tracking-widest">Shot on {filmStock.name}</div>}
+                {dateStr}
+              </div>
+            )}
+            {(onExport || onDelete || onLayersChange) && (
+              <div
+                className="flex gap-3 text-[10px] font-mono text-gray-400 uppercase tracking-widest"
+                onMouseDown={(e) => e.stopPropagation()}
+                onTouchStart={(e) => e.stopPropagation()}
+              >
+                {onExport && (
+                  <>
+                    <button onClick={() => onExport(photo, 'front')} className="hover:text-accent" title="Download front as PNG">
+                      <i className="fas fa-download mr-1" />Front
+                    </button>
+                    <button onClick={() => onExport(photo, 'back')} className="hover:text-accent" title="Download back as PNG">
+                      <i className="fas fa-download mr-1" />Back
+                    </button>
+                  </>
+                )}
+                {onLayersChange && (
+                  <button onClick={() => setIsDecorating(true)} className="hover:text-accent" title="Draw, add stickers and labels">
+                    <i className="fas fa-paint-brush mr-1" />Decorate
+                  </button>
+                )}
+                {onDelete && (
+                  <button onClick={() => onDelete(photo)} className="hover:text-red-500" title="Move to trash">
+                    <i className="fas fa-trash-alt mr-1" />Delete
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
+
+      {/* Portalled out of the board's transform; events are kept from starting a drag on the card */}
+      {isDecorating && onLayersChange && createPortal(
+        <div onMouseDown={(e) => e.stopPropagation()} onTouchStart={(e) => e.stopPropagation()}>
+          <LayerEditor
+            photo={photo}
+            ratio={frameRatio}
+            onSave={(layers) => {
+              onLayersChange(photo.id, layers);
+              setIsDecorating(false);
+              setIsFlipped(false);
+            }}
+            onClose={() => setIsDecorating(false)}
+          />
+        </div>,
+        document.body
+      )}
     </div>
   );
 };
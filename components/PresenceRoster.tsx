@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Participant } from '../types';
+import { initialOf } from '../services/profileService';
+
+interface PresenceRosterProps {
+  participants: Participant[];
+  currentUserId: string;
+  onEditProfile: () => void;
+}
+
+const Avatar: React.FC<{ participant: Participant; size?: string }> = ({ participant, size = 'w-8 h-8 text-sm' }) => (
+  <div
+    className={`${size} rounded-full flex items-center justify-center font-mono font-bold text-black border-2 border-[#151515] transition-opacity ${participant.status === 'idle' ? 'opacity-40 grayscale' : ''}`}
+    style={{ backgroundColor: participant.color }}
+  >
+    {initialOf(participant.name)}
+  </div>
+);
+
+export const PresenceRoster: React.FC<PresenceRosterProps> = ({ participants, currentUserId, onEditProfile }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (participants.length === 0) return null;
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[70] pointer-events-auto flex flex-col items-center gap-2">
+      <button
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="flex items-center -space-x-2"
+        title={`${participants.length} in this room`}
+      >
+        {participants.slice(0, 5).map(p => <Avatar key={p.userId} participant={p} />)}
+        {participants.length > 5 && (
+          <div className="w-8 h-8 rounded-full flex items-center justify-center font-mono text-[10px] text-white bg-[#151515] border-2 border-white/20">
+            +{participants.length - 5}
+          </div>
+        )}
+      </button>
+
+      {isExpanded && (
+        <ul className="bg-[#151515] border border-white/10 rounded-xl p-2 shadow-2xl flex flex-col gap-1 min-w-[180px]">
+          {participants.map(p => (
+            <li key={p.userId} className="flex items-center gap-3 px-2 py-1">
+              <Avatar participant={p} size="w-6 h-6 text-[10px]" />
+              <span className="font-mono text-xs text-white/90 truncate flex-1">
+                {p.name}{p.userId === currentUserId && <span className="text-white/40"> (you)</span>}
+              </span>
+              {p.userId === currentUserId ? (
+                <button onClick={onEditProfile} className="text-white/40 hover:text-white" title="Change your name">
+                  <i className="fas fa-pen text-[10px]" />
+                </button>
+              ) : (
+                <span className={`font-mono text-[9px] uppercase tracking-widest ${p.status === 'idle' ? 'text-white/30' : 'text-green-400'}`}>
+                  {p.status}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+
+export interface PresenceNotice {
+  id: string;
+  message: string;
+  color: string;
+}
+
+interface PresenceToastProps {
+  notices: PresenceNotice[];
+}
+
+export const PresenceToast: React.FC<PresenceToastProps> = ({ notices }) => {
+  if (notices.length === 0) return null;
+
+  return (
+    <div className="fixed top-16 left-1/2 -translate-x-1/2 z-[90] pointer-events-none flex flex-col items-center gap-2">
+      {notices.map(notice => (
+        <div key={notice.id} className="flex items-center gap-2 bg-[#151515] border border-white/10 rounded-xl px-3 py-2 shadow-2xl">
+          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: notice.color }} />
+          <span className="font-mono text-xs text-white/80 tracking-widest uppercase">{notice.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React, { useMemo } from 'react';
+import { encodeQr, qrPath } from '../services/qrCode';
+
+const QUIET_MODULES = 2;
+
+export const QrCode: React.FC<{ value: string; className?: string; title?: string }> = ({ value, className = '', title }) => {
+  const matrix = useMemo(() => {
+    try {
+      return encodeQr(value);
+    } catch (error) {
+      console.error("Error encoding QR code:", error);
+      return null;
+    }
+  }, [value]);
+  if (!matrix) return null;
+
+  const size = matrix.length + QUIET_MODULES * 2;
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className={className} shapeRendering="crispEdges" role="img" aria-label={title}>
+      {title && <title>{title}</title>}
+      <rect width={size} height={size} fill="#ffffff" />
+      <path d={qrPath(matrix, QUIET_MODULES)} fill="#111111" />
+    </svg>
+  );
+};
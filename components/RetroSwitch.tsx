@@ -13,6 +13,10 @@ export const RetroSwitch: React.FC<RetroSwitchProps> = ({ isOn, onToggle, label,
     <div className="flex flex-col items-center gap-1">
       <span className="font-mono text-[10px] text-gray-300 uppercase tracking-widest">{label}</span>
       <button
+        type="button"
+        role="switch"
+        aria-checked={isOn}
+        aria-label={label}
         onClick={onToggle}
         className={`w-12 h-6 rounded-full relative transition-colors duration-200 ease-in-out ${isOn ? 'bg-accent' : 'bg-gray-700'} shadow-inner border border-gray-800`}
       >
@@ -0,0 +1,375 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Room,
+  RoomAccess,
+  RoomChanges,
+  RoomMember,
+  RoomVisibility,
+  buildInviteLink,
+  fetchJoinCode,
+  fetchRoomMembers,
+  rotateJoinCode,
+} from '../services/roomService';
+import { buildWallLink, fetchWallToken, rotateWallToken } from '../services/wallService';
+
+interface RoomSettingsProps {
+  isOpen: boolean;
+  // The ID typed into the room input
+  room: string;
+  roomInfo: Room | null;
+  access: RoomAccess;
+  isOwner: boolean;
+  userId: string | null;
+  onClose: () => void;
+  onJoin: (code: string) => void;
+  onCreate: (title: string, visibility: RoomVisibility, useTypedId: boolean) => void;
+  onUpdate: (changes: RoomChanges) => void;
+  onKick: (member: RoomMember) => void;
+  onSetModerator: (member: RoomMember, on: boolean) => void;
+}
+
+export const RoomSettings: React.FC<RoomSettingsProps> = ({ isOpen, room, roomInfo, access, isOwner, userId, onClose, onJoin, onCreate, onUpdate, onKick, onSetModerator }) => {
+  const [code, setCode] = useState('');
+  const [newTitle, setNewTitle] = useState('');
+  const [newVisibility, setNewVisibility] = useState<RoomVisibility>('public');
+  const [title, setTitle] = useState('');
+  const [shotCap, setShotCap] = useState('');
+  const [joinCode, setJoinCode] = useState<string | null>(null);
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [copied, setCopied] = useState(false);
+  const [wallToken, setWallToken] = useState<string | null>(null);
+  const [wallCopied, setWallCopied] = useState(false);
+
+  const isJoined = access === 'joined' && !!roomInfo;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCode('');
+    setCopied(false);
+    setWallCopied(false);
+    setTitle(roomInfo?.title ?? '');
+    setShotCap(roomInfo?.shotsPerGuest?.toString() ?? '');
+  }, [isOpen, roomInfo?.id]);
+
+  // Members and the join code are only readable once we're in the room
+  useEffect(() => {
+    if (!isOpen || !isJoined) {
+      setJoinCode(null);
+      setMembers([]);
+      return;
+    }
+
+    let ignore = false;
+    Promise.all([fetchJoinCode(room), fetchRoomMembers(room)])
+      .then(([currentCode, currentMembers]) => {
+        if (ignore) return;
+        setJoinCode(currentCode);
+        setMembers(currentMembers);
+      })
+      .catch(err => console.error("Error loading room members:", err));
+    return () => { ignore = true; };
+  }, [isOpen, isJoined, room]);
+
+  // Only the owner can read or hand out the wall token
+  useEffect(() => {
+    if (!isOpen || !isJoined || !isOwner) {
+      setWallToken(null);
+      return;
+    }
+
+    let ignore = false;
+    fetchWallToken(room)
+      .then(token => { if (!ignore) setWallToken(token); })
+      .catch(err => console.error("Error loading wall token:", err));
+    return () => { ignore = true; };
+  }, [isOpen, isJoined, isOwner, room]);
+
+  if (!isOpen) return null;
+
+  const handleCopyInvite = async () => {
+    try {
+      await navigator.clipboard.writeText(buildInviteLink(room, joinCode));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Error copying invite link:", error);
+      alert("Failed to copy the invite link!");
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!confirm("Make a new join code? Invite links with the old code will stop working.")) return;
+    try {
+      setJoinCode(await rotateJoinCode(room));
+    } catch (error) {
+      console.error("Error rotating join code:", error);
+      alert("Failed to rotate the join code!");
+    }
+  };
+
+  // The first copy makes the token, so a room has no wall link until its owner asks for one
+  const handleCopyWall = async () => {
+    try {
+      const token = wallToken ?? await rotateWallToken(room);
+      setWallToken(token);
+      await navigator.clipboard.writeText(buildWallLink(room, token));
+      setWallCopied(true);
+      setTimeout(() => setWallCopied(false), 2000);
+    } catch (error) {
+      console.error("Error copying wall link:", error);
+      alert("Failed to copy the wall link!");
+    }
+  };
+
+  const handleRotateWall = async () => {
+    if (!confirm("Make a new wall link? Walls showing the old link will go blank.")) return;
+    try {
+      setWallToken(await rotateWallToken(room));
+    } catch (error) {
+      console.error("Error rotating wall token:", error);
+      alert("Failed to rotate the wall link!");
+    }
+  };
+
+  const handleKick = (member: RoomMember) => {
+    if (!confirm(`Remove ${member.name || 'this member'} from the room?`)) return;
+    onKick(member);
+    setMembers(prev => prev.filter(m => m.userId !== member.userId));
+  };
+
+  const handleSetModerator = (member: RoomMember, on: boolean) => {
+    onSetModerator(member, on);
+    setMembers(prev => prev.map(m => m.userId === member.userId ? { ...m, isModerator: on } : m));
+  };
+
+  const handleSaveTitle = (e: React.FormEvent) => {
+    e.preventDefault();
+    onUpdate({ title: title.trim() || null });
+  };
+
+  // Left empty for no limit
+  const handleSaveShotCap = (e: React.FormEvent) => {
+    e.preventDefault();
+    const cap = shotCap.trim() ? Math.max(1, Math.floor(Number(shotCap))) : null;
+    if (cap !== null && !Number.isFinite(cap)) return;
+    setShotCap(cap?.toString() ?? '');
+    onUpdate({ shotsPerGuest: cap });
+  };
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) onJoin(code.trim());
+  };
+
+  const handleCreate = (e: React.FormEvent, useTypedId: boolean) => {
+    e.preventDefault();
+    onCreate(newTitle.trim(), newVisibility, useTypedId);
+    setNewTitle('');
+  };
+
+  const inputClass = "w-full bg-white border-2 border-gray-300 p-2 font-mono text-sm text-gray-800 focus:outline-none focus:border-accent transition-colors disabled:bg-gray-100 disabled:text-gray-500";
+  const labelClass = "block text-gray-600 font-mono text-xs uppercase tracking-wider mb-1";
+  const buttonClass = "bg-gray-800 text-white font-mono text-xs uppercase tracking-widest px-4 py-2 hover:bg-accent transition-colors disabled:opacity-50";
+
+  const createForm = (useTypedId: boolean) => (
+    <form onSubmit={(e) => handleCreate(e, useTypedId)} className="flex flex-col gap-3">
+      <div>
+        <label className={labelClass}>Title</label>
+        <input
+          type="text"
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          placeholder="Sam's birthday"
+          className={inputClass}
+          maxLength={40}
+        />
+      </div>
+      <div className="flex gap-4 font-mono text-xs uppercase tracking-wider text-gray-600">
+        {(['public', 'private'] as RoomVisibility[]).map(v => (
+          <label key={v} className="flex items-center gap-2 cursor-pointer">
+            <input type="radio" checked={newVisibility === v} onChange={() => setNewVisibility(v)} />
+            <i className={`fas ${v === 'private' ? 'fa-lock' : 'fa-globe'}`} />{v}
+          </label>
+        ))}
+      </div>
+      <button type="submit" className={buttonClass}>
+        {useTypedId ? `Create ${room}` : 'Create new room'}
+      </button>
+    </form>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-[#f0f0f0] w-full max-w-md p-8 rounded-sm shadow-2xl relative border-4 border-white outline outline-1 outline-gray-300 max-h-[90vh] overflow-y-auto hide-scrollbar">
+        <button
+          onClick={onClose}
+          className="absolute top-2 right-2 text-gray-500 hover:text-gray-800"
+        >
+          <i className="fas fa-times text-xl"></i>
+        </button>
+
+        <div className="text-center mb-6 border-b-2 border-gray-300 pb-4">
+          <h2 className="font-mono text-2xl text-gray-800 tracking-widest uppercase font-bold">
+            {roomInfo?.title || room || 'Rooms'}
+          </h2>
+          <p className="font-hand text-gray-500 text-lg mt-1">
+            {!userId ? 'Log in to share a room'
+              : access === 'joined' ? (isOwner ? 'Your room' : 'You are a member')
+                : access === 'code-required' ? 'This room is private'
+                  : access === 'missing' ? 'No room with this ID yet'
+                    : access === 'joining' ? 'Knocking...'
+                      : 'Start a room for your friends'}
+          </p>
+        </div>
+
+        {userId && (
+          <div className="flex flex-col gap-6">
+            {access === 'code-required' && (
+              <form onSubmit={handleJoin} className="flex flex-col gap-3">
+                <div>
+                  <label className={labelClass}>Join code</label>
+                  <input
+                    type="text"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="ABCD1234"
+                    className={`${inputClass} uppercase`}
+                    maxLength={8}
+                  />
+                </div>
+                <button type="submit" disabled={!code.trim()} className={buttonClass}>Join</button>
+              </form>
+            )}
+
+            {access === 'missing' && room.trim() && createForm(true)}
+
+            {isJoined && (
+              <>
+                {isOwner && (
+                  <form onSubmit={handleSaveTitle} className="flex flex-col gap-3">
+                    <div>
+                      <label className={labelClass}>Title</label>
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={title}
+                          onChange={(e) => setTitle(e.target.value)}
+                          placeholder={room}
+                          className={inputClass}
+                          maxLength={40}
+                        />
+                        <button type="submit" className={buttonClass}>Save</button>
+                      </div>
+                    </div>
+                    <div className="flex gap-4 font-mono text-xs uppercase tracking-wider text-gray-600">
+                      {(['public', 'private'] as RoomVisibility[]).map(v => (
+                        <label key={v} className="flex items-center gap-2 cursor-pointer">
+                          <input type="radio" checked={roomInfo.visibility === v} onChange={() => onUpdate({ visibility: v })} />
+                          <i className={`fas ${v === 'private' ? 'fa-lock' : 'fa-globe'}`} />{v}
+                        </label>
+                      ))}
+                    </div>
+                    <label className="flex items-center gap-2 cursor-pointer font-mono text-xs uppercase tracking-wider text-gray-600">
+                      <input type="checkbox" checked={roomInfo.moderated} onChange={(e) => onUpdate({ moderated: e.target.checked })} />
+                      <i className="fas fa-user-shield" />Review new photos first
+                    </label>
+                  </form>
+                )}
+
+                {isOwner && (
+                  <form onSubmit={handleSaveShotCap}>
+                    <label className={labelClass}>Shots per guest</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min={1}
+                        value={shotCap}
+                        onChange={(e) => setShotCap(e.target.value)}
+                        placeholder="No limit"
+                        className={inputClass}
+                      />
+                      <button type="submit" className={buttonClass}>Save</button>
+                    </div>
+                  </form>
+                )}
+
+                <div>
+                  <label className={labelClass}>Invite</label>
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1 bg-white border-2 border-gray-300 p-2 font-mono text-sm text-gray-800 tracking-[0.3em] text-center">
+                      {joinCode ?? '--------'}
+                    </span>
+                    {isOwner && (
+                      <button onClick={handleRotate} className="w-10 h-10 text-gray-500 hover:text-accent" title="Make a new join code">
+                        <i className="fas fa-sync-alt" />
+                      </button>
+                    )}
+                  </div>
+                  <button onClick={handleCopyInvite} className={`${buttonClass} w-full mt-2`}>
+                    <i className={`fas ${copied ? 'fa-check' : 'fa-link'} mr-2`} />
+                    {copied ? 'Copied' : 'Copy invite link'}
+                  </button>
+                </div>
+
+                {isOwner && (
+                  <div>
+                    <label className={labelClass}>Live wall</label>
+                    <div className="flex items-center gap-2">
+                      <button onClick={handleCopyWall} className={`${buttonClass} flex-1`}>
+                        <i className={`fas ${wallCopied ? 'fa-check' : 'fa-tv'} mr-2`} />
+                        {wallCopied ? 'Copied' : wallToken ? 'Copy wall link' : 'Make wall link'}
+                      </button>
+                      {wallToken && (
+                        <button onClick={handleRotateWall} className="w-10 h-10 text-gray-500 hover:text-accent" title="Make a new wall link">
+                          <i className="fas fa-sync-alt" />
+                        </button>
+                      )}
+                    </div>
+                    <p className="font-mono text-[10px] text-gray-400 mt-2 uppercase tracking-wider">
+                      Anyone with this link can watch the room's photos, but not join it
+                    </p>
+                  </div>
+                )}
+
+                <div>
+                  <label className={labelClass}>Members ({members.length})</label>
+                  <ul className="flex flex-col divide-y divide-gray-200 bg-white border-2 border-gray-300">
+                    {members.map(member => (
+                      <li key={member.userId} className="flex items-center justify-between px-3 py-2 font-mono text-xs text-gray-700">
+                        <span className="truncate">
+                          {member.name || member.userId.slice(0, 8)}
+                          {member.userId === roomInfo.ownerId && <i className="fas fa-crown text-accent ml-2" title="Owner" />}
+                          {member.isModerator && <i className="fas fa-user-shield text-gray-400 ml-2" title="Moderator" />}
+                        </span>
+                        {isOwner && member.userId !== userId && (
+                          <div className="flex gap-3 shrink-0">
+                            <button
+                              onClick={() => handleSetModerator(member, !member.isModerator)}
+                              className="text-gray-400 hover:text-accent uppercase tracking-wider text-[10px]"
+                              title={member.isModerator ? 'Stop reviewing photos' : 'Let them review photos'}
+                            >
+                              {member.isModerator ? 'Unmod' : 'Mod'}
+                            </button>
+                            <button onClick={() => handleKick(member)} className="text-gray-400 hover:text-red-500 uppercase tracking-wider text-[10px]">
+                              Kick
+                            </button>
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </>
+            )}
+
+            {access !== 'missing' && (
+              <div className="border-t-2 border-gray-300 pt-6">
+                {createForm(false)}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
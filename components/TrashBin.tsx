@@ -0,0 +1,87 @@
+import React from 'react';
+import { Photo } from '../types';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { formatPhotoDate } from '../services/photoService';
+
+interface TrashBinProps {
+  isOpen: boolean;
+  photos: Photo[];
+  isLoading: boolean;
+  onClose: () => void;
+  onRestore: (photos: Photo[]) => void;
+  onDeleteForever: (photo: Photo) => void;
+}
+
+const TrashItem: React.FC<{ photo: Photo; onRestore: () => void; onDeleteForever: () => void }> = ({ photo, onRestore, onDeleteForever }) => {
+  const mediaUrl = useMediaUrl(photo);
+
+  return (
+    <div className="bg-white p-2 pb-3 shadow-md flex flex-col gap-2">
+      <div className="aspect-square bg-black overflow-hidden">
+        {mediaUrl && (photo.mediaType === 'video'
+          ? <video src={mediaUrl} muted playsInline className="w-full h-full object-cover" />
+          : <img src={mediaUrl} alt={photo.caption || 'Deleted photo'} className="w-full h-full object-cover" />)}
+      </div>
+      <p className="font-hand text-lg text-gray-800 leading-none text-center truncate">{photo.caption || ''}</p>
+      <p className="font-mono text-[9px] text-gray-400 text-center uppercase tracking-widest">{formatPhotoDate(photo.timestamp)}</p>
+      <div className="flex justify-between font-mono text-[10px] uppercase tracking-wider">
+        <button onClick={onRestore} className="text-gray-600 hover:text-accent">
+          <i className="fas fa-undo mr-1" />Restore
+        </button>
+        <button onClick={onDeleteForever} className="text-red-500 hover:text-red-700">
+          <i className="fas fa-times mr-1" />Delete
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const TrashBin: React.FC<TrashBinProps> = ({ isOpen, photos, isLoading, onClose, onRestore, onDeleteForever }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-[#f0f0f0] w-full max-w-2xl max-h-[85vh] p-6 rounded-sm shadow-2xl relative border-4 border-white outline outline-1 outline-gray-300 flex flex-col">
+        <button
+          onClick={onClose}
+          className="absolute top-2 right-2 text-gray-500 hover:text-gray-800"
+        >
+          <i className="fas fa-times text-xl"></i>
+        </button>
+
+        <div className="text-center mb-4 border-b-2 border-gray-300 pb-4">
+          <h2 className="font-mono text-2xl text-gray-800 tracking-widest uppercase font-bold">Trash</h2>
+          <p className="font-hand text-gray-500 text-lg mt-1">Restore a memory, or let it go for good</p>
+        </div>
+
+        <div className="overflow-y-auto hide-scrollbar flex-1">
+          {isLoading ? (
+            <p className="font-mono text-xs text-gray-500 text-center py-8 uppercase tracking-widest">Loading...</p>
+          ) : photos.length === 0 ? (
+            <p className="font-mono text-xs text-gray-500 text-center py-8 uppercase tracking-widest">The trash is empty</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {photos.map(photo => (
+                <TrashItem
+                  key={photo.id}
+                  photo={photo}
+                  onRestore={() => onRestore([photo])}
+                  onDeleteForever={() => onDeleteForever(photo)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {photos.length > 1 && (
+          <button
+            onClick={() => onRestore(photos)}
+            className="mt-4 bg-gray-800 text-white font-mono uppercase tracking-widest py-3 hover:bg-accent transition-colors"
+          >
+            Restore All
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss }) => {
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[90] pointer-events-auto flex items-center gap-4 bg-[#151515] border border-white/10 rounded-xl px-4 py-3 shadow-2xl">
+      <span className="font-mono text-xs text-white/80 tracking-widest uppercase">{message}</span>
+      <button
+        onClick={onUndo}
+        className="font-fredericka text-accent hover:text-white tracking-widest uppercase transition-colors"
+      >
+        Undo
+      </button>
+      <button onClick={onDismiss} className="text-white/40 hover:text-white" aria-label="Dismiss">
+        <i className="fas fa-times" />
+      </button>
+    </div>
+  );
+};
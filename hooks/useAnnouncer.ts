@@ -0,0 +1,23 @@
+import { useState, useCallback } from 'react';
+
+export interface Announcement {
+  id: string;
+  message: string;
+}
+
+// How long a message stays in the live region; it only needs to be there when it's added
+const ANNOUNCEMENT_MS = 5000;
+
+// Messages for a screen-reader live region. Each one is added as its own node, so
+// messages that arrive close together (a shot spent, then the print) are all read out.
+export const useAnnouncer = () => {
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+
+  const announce = useCallback((message: string) => {
+    const id = crypto.randomUUID();
+    setAnnouncements(prev => [...prev.slice(-2), { id, message }]);
+    setTimeout(() => setAnnouncements(prev => prev.filter(a => a.id !== id)), ANNOUNCEMENT_MS);
+  }, []);
+
+  return { announcements, announce };
+};
@@ -0,0 +1,38 @@
+import { useCallback, SyntheticEvent } from 'react';
+import { Photo } from '../types';
+
+// Play a video card between its trim points: looping <video>s go back to the in point,
+// others stop at the out point and call `onEnd`. Spread the handlers onto the <video>.
+export const useClipRange = (photo: Pick<Photo, 'clipStart' | 'clipEnd'>, onEnd?: () => void) => {
+  const { clipStart = 0, clipEnd } = photo;
+
+  const onLoadedMetadata = useCallback((e: SyntheticEvent<HTMLVideoElement>) => {
+    if (clipStart > 0) e.currentTarget.currentTime = clipStart;
+  }, [clipStart]);
+
+  const onTimeUpdate = useCallback((e: SyntheticEvent<HTMLVideoElement>) => {
+    const video = e.currentTarget;
+    // Seeking while paused shows whatever frame was asked for
+    if (video.paused) return;
+    if (clipEnd !== undefined && video.currentTime >= clipEnd) {
+      if (video.loop) {
+        video.currentTime = clipStart;
+      } else {
+        video.pause();
+        onEnd?.();
+      }
+    } else if (video.loop && video.currentTime < clipStart - 0.1) {
+      // `loop` restarts from zero
+      video.currentTime = clipStart;
+    }
+  }, [clipStart, clipEnd, onEnd]);
+
+  // Playing again after the out point starts over from the in point
+  const onPlay = useCallback((e: SyntheticEvent<HTMLVideoElement>) => {
+    if (clipEnd !== undefined && e.currentTarget.currentTime >= clipEnd) e.currentTarget.currentTime = clipStart;
+  }, [clipStart, clipEnd]);
+
+  const onEnded = useCallback(() => onEnd?.(), [onEnd]);
+
+  return { onLoadedMetadata, onTimeUpdate, onPlay, onEnded };
+};
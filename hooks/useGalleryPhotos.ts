@@ -0,0 +1,58 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Photo } from '../types';
+import { PhotoCursor, PhotoFilters, fetchPhotoPage, matchesPhotoFilters } from '../services/photoService';
+
+const GALLERY_PAGE_SIZE = 48;
+
+// The room's photos newest (or most reacted) first, page by page, whatever part of the board they are on.
+// Without a room (signed out) the photos already on this device are filtered in place.
+export const useGalleryPhotos = (room: string | null, localPhotos: Photo[], filters: PhotoFilters, byReactions = false) => {
+  const [photos, setPhotos] = useState<Photo[]>([]);
+  const [next, setNext] = useState<PhotoCursor | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  // Bumped whenever the list starts over, so pages for old filters are dropped
+  const generationRef = useRef(0);
+  const isLoadingRef = useRef(false);
+
+  const loadPage = useCallback(async (after: PhotoCursor | null, generation: number) => {
+    if (!room) return;
+    isLoadingRef.current = true;
+    setIsLoading(true);
+    try {
+      const page = await fetchPhotoPage(room, { filters, newestFirst: true, byReactions, publishedOnly: true, after, limit: GALLERY_PAGE_SIZE });
+      if (generation !== generationRef.current) return;
+      setPhotos(prev => after ? [...prev, ...page.photos.filter(p => !prev.some(existing => existing.id === p.id))] : page.photos);
+      setNext(page.next);
+    } catch (error) {
+      console.error("Error loading gallery:", error);
+    } finally {
+      if (generation === generationRef.current) {
+        isLoadingRef.current = false;
+        setIsLoading(false);
+      }
+    }
+  }, [room, filters.userId, filters.mediaType, filters.search, byReactions]);
+
+  useEffect(() => {
+    const generation = ++generationRef.current;
+    setPhotos([]);
+    setNext(null);
+    loadPage(null, generation);
+  }, [loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (!next || isLoadingRef.current) return;
+    loadPage(next, generationRef.current);
+  }, [next, loadPage]);
+
+  if (!room) {
+    return {
+      photos: localPhotos.filter(p => matchesPhotoFilters(p, filters)).sort((a, b) => b.timestamp - a.timestamp),
+      hasMore: false,
+      isLoading: false,
+      loadMore,
+    };
+  }
+
+  return { photos, hasMore: !!next, isLoading, loadMore };
+};
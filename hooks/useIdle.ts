@@ -0,0 +1,39 @@
+import { useState, useEffect } from 'react';
+
+const ACTIVITY_EVENTS = ['pointermove', 'pointerdown', 'keydown', 'wheel'] as const;
+
+// True after `timeoutMs` without input, or while the tab is hidden
+export const useIdle = (timeoutMs: number) => {
+  const [isIdle, setIsIdle] = useState(false);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+
+    const markActive = () => {
+      setIsIdle(false);
+      clearTimeout(timer);
+      timer = setTimeout(() => setIsIdle(true), timeoutMs);
+    };
+
+    const handleVisibility = () => {
+      if (document.hidden) {
+        clearTimeout(timer);
+        setIsIdle(true);
+      } else {
+        markActive();
+      }
+    };
+
+    markActive();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [timeoutMs]);
+
+  return isIdle;
+};
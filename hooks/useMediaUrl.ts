@@ -0,0 +1,23 @@
+import { useState, useEffect } from 'react';
+import { Photo } from '../types';
+import { resolveMediaUrl } from '../services/mediaStorage';
+
+// Stored photos only carry an object key; resolve it once the component is mounted
+export const useMediaUrl = (photo: Photo) => {
+  const [mediaUrl, setMediaUrl] = useState(photo.dataUrl);
+
+  useEffect(() => {
+    if (photo.dataUrl) {
+      setMediaUrl(photo.dataUrl);
+      return;
+    }
+
+    let cancelled = false;
+    resolveMediaUrl(photo)
+      .then(url => { if (!cancelled) setMediaUrl(url); })
+      .catch(err => console.error("Failed to load photo media:", err));
+    return () => { cancelled = true; };
+  }, [photo.id, photo.dataUrl, photo.objectKey]);
+
+  return mediaUrl;
+};
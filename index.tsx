@@ -1,15 +1,20 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { LiveWall } from './components/LiveWall';
+import { readWallFromUrl } from './services/wallService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// A wall link opens the read-only projector view instead of the camera
+const wall = readWallFromUrl();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {wall ? <LiveWall room={wall.room} token={wall.token} /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,143 @@
+// Anything shared with the room (cards, cursors) is placed on a fixed virtual
+// board, so the collage has the same layout on a phone and on a 4K monitor.
+// Each viewer looks at it through their own view, which pans and zooms.
+
+export const BOARD_WIDTH = 4000;
+export const BOARD_HEIGHT = 2500;
+
+// Stored coordinates carry a version instead of being guessed from their range:
+// 0 = raw viewport pixels, 1 = fraction of the viewport, 2 = board units
+export const COORD_VERSION = 2;
+
+// Where layouts from before the board existed are placed, and what a fresh view shows
+export const HOME_FRAME = { x: 1400, y: 800, width: 1200, height: 900 };
+
+// Cards have one size on the board, whatever the screen
+export const CARD_WIDTH = 208;
+export const CARD_HEIGHT = 336;
+
+const MAX_ZOOM = 3;
+
+export interface BoardPoint {
+  x: number;
+  y: number;
+}
+
+// The board point at the top-left of the screen, and screen pixels per board unit
+export interface BoardView {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export const toBoardPoint = (screenX: number, screenY: number, view: BoardView): BoardPoint => ({
+  x: view.x + screenX / view.zoom,
+  y: view.y + screenY / view.zoom,
+});
+
+export const toScreenPoint = (point: BoardPoint, view: BoardView) => ({
+  x: (point.x - view.x) * view.zoom,
+  y: (point.y - view.y) * view.zoom,
+});
+
+export const fromStoredPoint = (x: number, y: number, version: number | null | undefined): BoardPoint => {
+  switch (version) {
+    case COORD_VERSION:
+      return { x, y };
+    case 1:
+      return { x: HOME_FRAME.x + x * HOME_FRAME.width, y: HOME_FRAME.y + y * HOME_FRAME.height };
+    default:
+      // Pixels on an unknown screen: treat the home frame as that screen
+      return { x: HOME_FRAME.x + x, y: HOME_FRAME.y + y };
+  }
+};
+
+const minZoom = () => Math.min(window.innerWidth / BOARD_WIDTH, window.innerHeight / BOARD_HEIGHT);
+
+// Keep the zoom in range and at least part of the board on screen
+export const clampView = (view: BoardView): BoardView => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(minZoom(), view.zoom));
+  const visibleW = window.innerWidth / zoom;
+  const visibleH = window.innerHeight / zoom;
+  const clampAxis = (value: number, visible: number, size: number) =>
+    visible >= size ? (size - visible) / 2 : Math.min(size - visible, Math.max(0, value));
+  return {
+    zoom,
+    x: clampAxis(view.x, visibleW, BOARD_WIDTH),
+    y: clampAxis(view.y, visibleH, BOARD_HEIGHT),
+  };
+};
+
+// Fit the home frame to the screen
+export const homeView = (): BoardView => {
+  const zoom = Math.min(window.innerWidth / HOME_FRAME.width, window.innerHeight / HOME_FRAME.height);
+  return clampView({
+    zoom,
+    x: HOME_FRAME.x + HOME_FRAME.width / 2 - window.innerWidth / zoom / 2,
+    y: HOME_FRAME.y + HOME_FRAME.height / 2 - window.innerHeight / zoom / 2,
+  });
+};
+
+// Zoom by `factor`, keeping the board point under the given screen point where it is
+export const zoomViewAt = (view: BoardView, screenX: number, screenY: number, factor: number): BoardView => {
+  const anchor = toBoardPoint(screenX, screenY, view);
+  const zoom = Math.min(MAX_ZOOM, Math.max(minZoom(), view.zoom * factor));
+  return clampView({ zoom, x: anchor.x - screenX / zoom, y: anchor.y - screenY / zoom });
+};
+
+export const panView = (view: BoardView, screenDx: number, screenDy: number): BoardView =>
+  clampView({ ...view, x: view.x - screenDx / view.zoom, y: view.y - screenDy / view.zoom });
+
+// Center the view on a board point without changing the zoom
+export const centerViewOn = (view: BoardView, point: BoardPoint): BoardView =>
+  clampView({ ...view, x: point.x - window.innerWidth / view.zoom / 2, y: point.y - window.innerHeight / view.zoom / 2 });
+
+// --- Regions and tiles: which part of the board needs loading and drawing ---
+
+export interface BoardRegion {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// What the view shows, grown by `margin` board units on every side
+export const visibleRegion = (view: BoardView, margin = 0): BoardRegion => ({
+  left: view.x - margin,
+  top: view.y - margin,
+  right: view.x + window.innerWidth / view.zoom + margin,
+  bottom: view.y + window.innerHeight / view.zoom + margin,
+});
+
+export const cardIntersects = (point: BoardPoint, region: BoardRegion) =>
+  point.x + CARD_WIDTH >= region.left && point.x <= region.right &&
+  point.y + CARD_HEIGHT >= region.top && point.y <= region.bottom;
+
+// The board is loaded tile by tile; a card belongs to the tile its top-left corner is in
+const TILE_SIZE = 1000;
+
+export interface BoardTile extends BoardRegion {
+  key: string;
+}
+
+export const tilesInRegion = (region: BoardRegion): BoardTile[] => {
+  const tiles: BoardTile[] = [];
+  // Cards whose corner is just outside the region can still reach into it
+  const firstCol = Math.floor((region.left - CARD_WIDTH) / TILE_SIZE);
+  const firstRow = Math.floor((region.top - CARD_HEIGHT) / TILE_SIZE);
+  const lastCol = Math.floor(region.right / TILE_SIZE);
+  const lastRow = Math.floor(region.bottom / TILE_SIZE);
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let col = firstCol; col <= lastCol; col++) {
+      tiles.push({
+        key: `${col}:${row}`,
+        left: col * TILE_SIZE,
+        top: row * TILE_SIZE,
+        right: (col + 1) * TILE_SIZE,
+        bottom: (row + 1) * TILE_SIZE,
+      });
+    }
+  }
+  return tiles;
+};
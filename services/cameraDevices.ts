@@ -0,0 +1,88 @@
+// Which camera feeds the viewfinder, and how it is mirrored
+
+export type CameraFacing = 'user' | 'environment';
+
+export interface CameraPrefs {
+  // A specific camera picked from the list; null follows `facing`
+  deviceId: string | null;
+  facing: CameraFacing;
+  // Mirroring only applies to selfie cameras (and webcams, which don't say which way they face).
+  // The viewfinder and the saved picture are mirrored separately.
+  mirrorPreview: boolean;
+  mirrorCapture: boolean;
+}
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+// The camera the stream actually came from
+export interface ActiveCamera {
+  deviceId: string | null;
+  facing: CameraFacing | null;
+}
+
+export const DEFAULT_CAMERA_PREFS: CameraPrefs = {
+  deviceId: null,
+  facing: 'user',
+  mirrorPreview: true,
+  mirrorCapture: false,
+};
+
+const PREFS_KEY = 'retrocam:camera';
+
+export const loadCameraPrefs = (): CameraPrefs => {
+  try {
+    const stored = localStorage.getItem(PREFS_KEY);
+    if (stored) return { ...DEFAULT_CAMERA_PREFS, ...JSON.parse(stored) };
+  } catch {
+    // Use defaults
+  }
+  return DEFAULT_CAMERA_PREFS;
+};
+
+export const saveCameraPrefs = (prefs: CameraPrefs) => {
+  localStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+};
+
+// Labels are empty until camera permission has been granted once
+export const listCameras = async (): Promise<CameraDevice[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'videoinput' && device.deviceId)
+    .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `Camera ${i + 1}` }));
+};
+
+const videoConstraints = (prefs: Pick<CameraPrefs, 'deviceId' | 'facing'>): MediaTrackConstraints => ({
+  ...(prefs.deviceId ? { deviceId: { exact: prefs.deviceId } } : { facingMode: prefs.facing }),
+  width: { ideal: 1280 },
+  height: { ideal: 1280 }
+});
+
+// Open the preferred camera. A remembered device that has gone away falls back to the facing mode.
+export const openCamera = async (prefs: CameraPrefs): Promise<{ stream: MediaStream; camera: ActiveCamera }> => {
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ video: videoConstraints(prefs), audio: false });
+  } catch (error) {
+    const name = (error as DOMException).name;
+    if (!prefs.deviceId || (name !== 'OverconstrainedError' && name !== 'NotFoundError')) throw error;
+    stream = await navigator.mediaDevices.getUserMedia({ video: videoConstraints({ ...prefs, deviceId: null }), audio: false });
+  }
+
+  const settings = stream.getVideoTracks()[0]?.getSettings() ?? {};
+  const facing = settings.facingMode === 'user' || settings.facingMode === 'environment' ? settings.facingMode : null;
+  return { stream, camera: { deviceId: settings.deviceId ?? null, facing } };
+};
+
+// The camera the flip control switches to: the other side on phones, the next camera elsewhere
+export const flipTarget = (active: ActiveCamera, cameras: CameraDevice[]): Pick<CameraPrefs, 'deviceId' | 'facing'> | null => {
+  if (active.facing) return { deviceId: null, facing: active.facing === 'user' ? 'environment' : 'user' };
+  if (cameras.length < 2) return null;
+  const index = cameras.findIndex(c => c.deviceId === active.deviceId);
+  return { deviceId: cameras[(index + 1) % cameras.length].deviceId, facing: 'user' };
+};
+
+export const isMirrored = (enabled: boolean, active: ActiveCamera | null) =>
+  enabled && active?.facing !== 'environment';
@@ -0,0 +1,266 @@
+import { geminiCaptionProvider } from './geminiService';
+
+export type CaptionProviderId = 'gemini' | 'local' | 'openai-compatible';
+
+export interface CaptionRequest {
+  // JPEG data URL (or bare base64)
+  image: string;
+  prompt: string;
+  model: string;
+  temperature: number;
+  endpoint?: string;
+  maxWords: number;
+  // Which of several alternatives this is; lets deterministic providers vary their answer
+  variant: number;
+}
+
+export interface CaptionProvider {
+  id: CaptionProviderId;
+  label: string;
+  defaultModel: string;
+  // Whether it's configured; checked before a photo is taken, so it only sees the endpoint
+  isAvailable: (request: Pick<CaptionRequest, 'endpoint'>) => boolean;
+  generate: (request: CaptionRequest) => Promise<string>;
+}
+
+// Saved per room (rooms.caption_config), or on this device when signed out
+export interface CaptionConfig {
+  provider: CaptionProviderId;
+  model?: string;
+  temperature: number;
+  promptTemplate: string;
+  // Base URL for the OpenAI-compatible provider, e.g. http://localhost:11434/v1
+  endpoint?: string;
+}
+
+export const DEFAULT_PROMPT_TEMPLATE = "Generate a very short handwritten-style caption (max {maxWords} words) for this polaroid photo. Tone: {style}. Write it in {language}. Return only the text.";
+
+export type CaptionPersona = 'witty' | 'wholesome' | 'poetic' | 'roast' | 'wedding' | 'kid-safe';
+
+export const CAPTION_PERSONAS: { id: CaptionPersona; label: string; instruction: string }[] = [
+  { id: 'witty', label: 'Witty', instruction: 'funny, witty or sarcastic, like a fun memory or a joke' },
+  { id: 'wholesome', label: 'Wholesome', instruction: 'warm, kind and uplifting' },
+  { id: 'poetic', label: 'Poetic', instruction: 'poetic and nostalgic, like a line from a poem' },
+  { id: 'roast', label: 'Roast', instruction: 'a playful, good-natured roast of the people or scene, never cruel' },
+  { id: 'wedding', label: 'Wedding', instruction: 'romantic and celebratory, suitable for a wedding guest book' },
+  { id: 'kid-safe', label: 'Kid-Safe', instruction: 'silly and cheerful with simple words, suitable for young children' },
+];
+
+export const CAPTION_LANGUAGES = ['English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Dutch', 'Japanese', 'Korean', 'Chinese', 'Hindi', 'Arabic'];
+
+export const CAPTION_LENGTHS = [3, 6, 10];
+
+// Each user's own taste, layered on top of the room's provider and prompt
+export interface CaptionStyle {
+  persona: CaptionPersona;
+  language: string;
+  maxWords: number;
+}
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = { persona: 'witty', language: 'English', maxWords: 6 };
+
+export const DEFAULT_CAPTION_CONFIG: CaptionConfig = {
+  provider: (import.meta.env.VITE_CAPTION_PROVIDER as CaptionProviderId) || 'gemini',
+  temperature: 0.7,
+  promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+  endpoint: import.meta.env.VITE_LOCAL_LLM_URL || undefined,
+};
+
+// Fill `{name}` placeholders; unknown ones are left as written
+export const renderPrompt = (template: string, vars: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, name) => name in vars ? String(vars[name]) : match);
+
+// Room templates written before styles existed get the style appended instead
+const buildPrompt = (template: string, style: CaptionStyle) => {
+  const persona = CAPTION_PERSONAS.find(p => p.id === style.persona) ?? CAPTION_PERSONAS[0];
+  let prompt = renderPrompt(template, { maxWords: style.maxWords, style: persona.instruction, language: style.language });
+  if (!template.includes('{style}')) prompt += ` Tone: ${persona.instruction}.`;
+  if (!template.includes('{language}')) prompt += ` Write it in ${style.language}.`;
+  return prompt;
+};
+
+const limitWords = (text: string, maxWords: number) => text.split(/\s+/).filter(Boolean).slice(0, maxWords).join(' ');
+
+// --- Local provider: rule-based, deterministic, never leaves the device ---
+
+const LOCAL_CAPTIONS = {
+  dark: ["Lights out, vibes on", "Night owls only", "Who turned off the sun?", "Shadows know the story"],
+  bright: ["Blinded by the good times", "Too bright to care", "Sunscreen was optional", "Overexposed and loving it"],
+  warm: ["Golden hour, golden people", "Warm hearts, warmer light", "Peak cozy achieved", "Toasty memories"],
+  cool: ["Cool as a cucumber", "Blue mood, good mood", "Chill mode: activated", "Frosty but fabulous"],
+  neutral: ["Caught in the act", "Memories loading...", "Definitely not posed", "Smile, you're on film"],
+};
+
+// FNV-1a over a sample of the string: the same photo always gets the same caption
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  const step = Math.max(1, Math.floor(value.length / 4096));
+  for (let i = 0; i < value.length; i += step) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const analyzeImage = (image: string): Promise<{ luma: number; warmth: number } | null> =>
+  new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = 16;
+      canvas.height = 16;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return resolve(null);
+      ctx.drawImage(img, 0, 0, 16, 16);
+      const px = ctx.getImageData(0, 0, 16, 16).data;
+      let r = 0, g = 0, b = 0;
+      for (let i = 0; i < px.length; i += 4) {
+        r += px[i]; g += px[i + 1]; b += px[i + 2];
+      }
+      const n = px.length / 4;
+      r /= n; g /= n; b /= n;
+      resolve({ luma: 0.299 * r + 0.587 * g + 0.114 * b, warmth: r - b });
+    };
+    img.onerror = () => resolve(null);
+    img.src = image.startsWith('data:') ? image : `data:image/jpeg;base64,${image}`;
+  });
+
+export const localCaptionProvider: CaptionProvider = {
+  id: 'local',
+  label: 'Local',
+  defaultModel: 'rules',
+  isAvailable: () => true,
+  // English only, whatever the requested language
+  generate: async ({ image, maxWords, variant }) => {
+    const stats = typeof Image === 'undefined' ? null : await analyzeImage(image);
+    const bucket = !stats ? LOCAL_CAPTIONS.neutral
+      : stats.luma < 70 ? LOCAL_CAPTIONS.dark
+        : stats.luma > 180 ? LOCAL_CAPTIONS.bright
+          : stats.warmth > 25 ? LOCAL_CAPTIONS.warm
+            : stats.warmth < -15 ? LOCAL_CAPTIONS.cool
+              : LOCAL_CAPTIONS.neutral;
+    return limitWords(bucket[(hashString(image) + variant) % bucket.length], maxWords);
+  }
+};
+
+// --- OpenAI-compatible provider: e.g. a vision model served by Ollama or LM Studio ---
+
+export const openAiCompatibleCaptionProvider: CaptionProvider = {
+  id: 'openai-compatible',
+  label: 'Local LLM (OpenAI API)',
+  defaultModel: 'llava',
+  isAvailable: ({ endpoint }) => !!endpoint,
+  generate: async ({ image, prompt, model, temperature, endpoint }) => {
+    const response = await fetch(`${endpoint!.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        temperature,
+        max_tokens: 40,
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            { type: 'image_url', image_url: { url: image.startsWith('data:') ? image : `data:image/jpeg;base64,${image}` } }
+          ]
+        }]
+      })
+    });
+
+    if (!response.ok) throw new Error(`Caption endpoint returned ${response.status}`);
+    const data = await response.json();
+    return (data.choices?.[0]?.message?.content ?? '').trim().replace(/^"|"$/g, '');
+  }
+};
+
+export const CAPTION_PROVIDERS: Record<CaptionProviderId, CaptionProvider> = {
+  gemini: geminiCaptionProvider,
+  local: localCaptionProvider,
+  'openai-compatible': openAiCompatibleCaptionProvider,
+};
+
+// The local provider writes from a handful of English lines, so persona and language
+// mean nothing to it. True when it's chosen, or stands in for an unconfigured provider.
+export const usesLocalCaptions = (config: CaptionConfig) => {
+  const provider = CAPTION_PROVIDERS[config.provider] ?? localCaptionProvider;
+  return provider === localCaptionProvider || !provider.isAvailable({ endpoint: config.endpoint || DEFAULT_CAPTION_CONFIG.endpoint });
+};
+
+export const generateCaption = async (
+  image: string,
+  config: CaptionConfig = DEFAULT_CAPTION_CONFIG,
+  style: CaptionStyle = DEFAULT_CAPTION_STYLE,
+  variant = 0
+): Promise<string> => {
+  const provider = CAPTION_PROVIDERS[config.provider] ?? localCaptionProvider;
+  const request: CaptionRequest = {
+    image,
+    prompt: buildPrompt(config.promptTemplate || DEFAULT_PROMPT_TEMPLATE, style),
+    model: config.model || provider.defaultModel,
+    temperature: config.temperature,
+    endpoint: config.endpoint || DEFAULT_CAPTION_CONFIG.endpoint,
+    maxWords: style.maxWords,
+    variant,
+  };
+
+  if (!provider.isAvailable(request)) {
+    console.warn(`${provider.label} caption provider is not configured; using local captions.`);
+    return localCaptionProvider.generate(request);
+  }
+
+  // Any failure falls back to the local provider rather than a canned string
+  try {
+    const caption = await provider.generate(request);
+    if (caption) return limitWords(caption, style.maxWords);
+  } catch (error) {
+    console.error(`${provider.label} caption generation failed:`, error);
+  }
+  return localCaptionProvider.generate(request);
+};
+
+// Several distinct alternatives to choose from; `round` moves on to fresh variants when regenerating
+export const generateCaptionOptions = async (
+  image: string,
+  config: CaptionConfig,
+  style: CaptionStyle,
+  count = 3,
+  round = 0
+): Promise<string[]> => {
+  const captions = await Promise.all(
+    Array.from({ length: count }, (_, i) => generateCaption(image, config, style, round * count + i))
+  );
+  return [...new Set(captions)];
+};
+
+const LOCAL_CONFIG_KEY = 'retrocam:caption-config';
+
+export const loadLocalCaptionConfig = (): CaptionConfig => {
+  try {
+    const stored = localStorage.getItem(LOCAL_CONFIG_KEY);
+    if (stored) return { ...DEFAULT_CAPTION_CONFIG, ...JSON.parse(stored) };
+  } catch {
+    // Use defaults
+  }
+  return DEFAULT_CAPTION_CONFIG;
+};
+
+export const saveLocalCaptionConfig = (config: CaptionConfig) => {
+  localStorage.setItem(LOCAL_CONFIG_KEY, JSON.stringify(config));
+};
+
+const STYLE_KEY = 'retrocam:caption-style';
+
+export const loadCaptionStyle = (): CaptionStyle => {
+  try {
+    const stored = localStorage.getItem(STYLE_KEY);
+    if (stored) return { ...DEFAULT_CAPTION_STYLE, ...JSON.parse(stored) };
+  } catch {
+    // Use defaults
+  }
+  return DEFAULT_CAPTION_STYLE;
+};
+
+export const saveCaptionStyle = (style: CaptionStyle) => {
+  localStorage.setItem(STYLE_KEY, JSON.stringify(style));
+};
@@ -0,0 +1,60 @@
+// What one press of the shutter does, and how many shots it uses from the roll
+
+export type CaptureMode = 'photo' | 'burst' | 'booth' | 'video';
+
+export const CAPTURE_MODES: { id: CaptureMode; label: string }[] = [
+  { id: 'photo', label: 'Photo' },
+  { id: 'burst', label: 'Burst' },
+  { id: 'booth', label: 'Booth' },
+  { id: 'video', label: 'Video' },
+];
+
+// Seconds before the first frame; 0 is off
+export const SELF_TIMER_OPTIONS = [0, 3, 10];
+
+// Burst takes up to this many frames, fewer if the roll runs out
+export const BURST_COUNT = 4;
+export const BURST_INTERVAL_MS = 250;
+
+// The booth always takes all of its frames, a few seconds apart, onto one strip
+export const BOOTH_FRAMES = 4;
+export const BOOTH_INTERVAL_S = 3;
+
+// Shots a press uses: every frame is an exposure, a clip is one
+export const shotsFor = (mode: CaptureMode, shotsLeft: number) => {
+  switch (mode) {
+    case 'burst':
+      return Math.min(BURST_COUNT, shotsLeft);
+    case 'booth':
+      return BOOTH_FRAMES;
+    default:
+      return 1;
+  }
+};
+
+// Booth strip layout, in pixels: 4:3 frames stacked with an even border
+const BOOTH_FRAME_WIDTH = 480;
+const BOOTH_FRAME_HEIGHT = 360;
+const BOOTH_PADDING = 16;
+const STRIP_WIDTH = BOOTH_FRAME_WIDTH + BOOTH_PADDING * 2;
+const STRIP_HEIGHT = BOOTH_FRAMES * BOOTH_FRAME_HEIGHT + (BOOTH_FRAMES + 1) * BOOTH_PADDING;
+
+export const BOOTH_FRAME_RATIO = BOOTH_FRAME_WIDTH / BOOTH_FRAME_HEIGHT;
+export const STRIP_RATIO = STRIP_WIDTH / STRIP_HEIGHT;
+
+// Stack the booth frames into one classic vertical strip on the frame color
+export const composeBoothStrip = (frames: HTMLCanvasElement[], background: string) => {
+  const strip = document.createElement('canvas');
+  strip.width = STRIP_WIDTH;
+  strip.height = STRIP_HEIGHT;
+  const ctx = strip.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, STRIP_WIDTH, STRIP_HEIGHT);
+  frames.forEach((frame, i) => {
+    const y = BOOTH_PADDING + i * (BOOTH_FRAME_HEIGHT + BOOTH_PADDING);
+    ctx.drawImage(frame, BOOTH_PADDING, y, BOOTH_FRAME_WIDTH, BOOTH_FRAME_HEIGHT);
+  });
+  return strip;
+};
@@ -0,0 +1,66 @@
+import { supabase } from './supabaseClient';
+import { PhotoComment } from '../types';
+import { fetchDisplayNames } from './profileService';
+
+export const COMMENT_MAX_LENGTH = 500;
+
+const COMMENT_COLUMNS = 'id, photo_id, user_id, parent_id, body, created_at';
+
+export const mapCommentRow = (row: any, authorName?: string): PhotoComment => ({
+  id: row.id,
+  photoId: row.photo_id,
+  userId: row.user_id,
+  authorName,
+  parentId: row.parent_id ?? undefined,
+  body: row.body,
+  createdAt: new Date(row.created_at).getTime(),
+});
+
+// A photo's comments, oldest first, with their authors' display names
+export const fetchComments = async (photoId: string): Promise<PhotoComment[]> => {
+  const { data, error } = await supabase
+    .from('photo_comments')
+    .select(COMMENT_COLUMNS)
+    .eq('photo_id', photoId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+
+  const rows = data ?? [];
+  const names = await fetchDisplayNames([...new Set(rows.map((row: any) => row.user_id as string))])
+    .catch(err => {
+      console.error("Error loading commenter names:", err);
+      return {} as Record<string, string>;
+    });
+  return rows.map((row: any) => mapCommentRow(row, names[row.user_id]));
+};
+
+export const postComment = async (photoId: string, body: string, parentId: string | undefined, authorName: string | undefined): Promise<PhotoComment> => {
+  const { data, error } = await supabase
+    .from('photo_comments')
+    .insert({ photo_id: photoId, body, parent_id: parentId ?? null })
+    .select(COMMENT_COLUMNS)
+    .single();
+  if (error) throw error;
+  return mapCommentRow(data, authorName);
+};
+
+export const countComments = async (photoId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('photo_comments')
+    .select('id', { count: 'exact', head: true })
+    .eq('photo_id', photoId);
+  if (error) throw error;
+  return count ?? 0;
+};
+
+// Replies go with the comment they answer
+export const deleteComment = async (id: string) => {
+  const { error } = await supabase.from('photo_comments').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// A comment and every reply below it, as the database's cascade removes them
+export const commentWithReplies = (comments: PhotoComment[], id: string): string[] => [
+  id,
+  ...comments.filter(c => c.parentId === id).flatMap(c => commentWithReplies(comments, c.id)),
+];
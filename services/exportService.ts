@@ -0,0 +1,409 @@
+import { Photo, PhotoLayer } from '../types';
+import { resolveMediaUrl } from './mediaStorage';
+import { getFilmStock } from './filmFilters';
+import { formatPhotoDate } from './photoService';
+import { FRAME_ASPECTS, isDarkColor } from './filmPacks';
+
+// Polaroid 600 frame in millimetres: 88 x 107 card with a 79mm square image
+const FRAME = { width: 88, height: 107, image: 79, side: 4.5, top: 6.5 };
+const MM_PER_INCH = 25.4;
+
+const mmToPx = (mm: number, dpi: number) => Math.round(mm / MM_PER_INCH * dpi);
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image ${url}`));
+    img.src = url;
+  });
+
+// Poster frame for video cards: the one picked when trimming, or else
+// a frame from the middle of the first second
+const loadPosterFrame = (url: string, time?: number): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => {
+      video.currentTime = time ?? Math.min(0.5, (video.duration || 1) / 2);
+    };
+    video.onseeked = () => resolve(video);
+    video.onerror = () => reject(new Error(`Failed to load video ${url}`));
+    video.src = url;
+  });
+
+const drawCover = (ctx: CanvasRenderingContext2D, source: CanvasImageSource, sw: number, sh: number, x: number, y: number, w: number, h: number) => {
+  const scale = Math.min(sw / w, sh / h);
+  const cw = w * scale;
+  const ch = h * scale;
+  ctx.drawImage(source, (sw - cw) / 2, (sh - ch) / 2, cw, ch, x, y, w, h);
+};
+
+// Doodles, stickers and labels over the image box, as PhotoLayers draws them on the card
+const drawLayers = (ctx: CanvasRenderingContext2D, layers: PhotoLayer[], x: number, y: number, w: number, h: number) => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, w, h);
+  ctx.clip();
+
+  for (const layer of layers) {
+    if (layer.type === 'doodle') {
+      ctx.strokeStyle = layer.color;
+      ctx.lineWidth = layer.width * w;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      layer.points.forEach(([px, py], i) => {
+        if (i === 0) ctx.moveTo(x + px * w, y + py * h);
+        else ctx.lineTo(x + px * w, y + py * h);
+      });
+      ctx.stroke();
+      continue;
+    }
+
+    ctx.save();
+    ctx.translate(x + layer.x * w, y + layer.y * h);
+    ctx.rotate(layer.rotation * Math.PI / 180);
+    if (layer.type === 'sticker') {
+      ctx.font = `${layer.size * w}px sans-serif`;
+      ctx.fillText(layer.emoji, 0, 0);
+    } else {
+      ctx.font = `${layer.size * w}px "Caveat", cursive`;
+      ctx.fillStyle = layer.color;
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.4)';
+      ctx.shadowBlur = layer.size * w * 0.08;
+      ctx.fillText(layer.text, 0, 0);
+    }
+    ctx.restore();
+  }
+
+  ctx.restore();
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (ctx.measureText(candidate).width > maxWidth && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+const drawSpacedText = (ctx: CanvasRenderingContext2D, text: string, cx: number, y: number, spacing: number) => {
+  const chars = text.split('');
+  const total = chars.reduce((w, c) => w + ctx.measureText(c).width + spacing, -spacing);
+  let x = cx - total / 2;
+  ctx.textAlign = 'left';
+  for (const c of chars) {
+    ctx.fillText(c, x, y);
+    x += ctx.measureText(c).width + spacing;
+  }
+  ctx.textAlign = 'center';
+};
+
+const ensureFonts = (px: number) => Promise.all([
+  document.fonts.load(`${px}px "Caveat"`),
+  document.fonts.load(`${px}px "Special Elite"`)
+]).catch(() => undefined);
+
+export const renderPolaroid = async (photo: Photo, side: 'front' | 'back' = 'front', dpi = 300): Promise<HTMLCanvasElement> => {
+  const width = mmToPx(FRAME.width, dpi);
+  const height = mmToPx(FRAME.height, dpi);
+  const imageSize = mmToPx(FRAME.image, dpi);
+  const left = mmToPx(FRAME.side, dpi);
+  const top = mmToPx(FRAME.top, dpi);
+  const captionPx = Math.round(imageSize * 0.1);
+  const monoPx = Math.round(imageSize * 0.04);
+
+  await ensureFonts(captionPx);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  if (side === 'front') {
+    // Wide frames are shorter and mini frames narrower than the 79mm square
+    const ratio = FRAME_ASPECTS[photo.aspect ?? 'square'];
+    const imageW = ratio >= 1 ? imageSize : Math.round(imageSize * ratio);
+    const imageH = ratio >= 1 ? Math.round(imageSize / ratio) : imageSize;
+    const imageX = left + (imageSize - imageW) / 2;
+    const borderColor = photo.borderColor || '#ffffff';
+    const isDarkFrame = isDarkColor(borderColor);
+
+    ctx.fillStyle = borderColor;
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(imageX, top, imageW, imageH);
+
+    const url = await resolveMediaUrl(photo);
+    if (photo.mediaType === 'video') {
+      const video = await loadPosterFrame(url, photo.posterTime ?? photo.clipStart);
+      // Clips are stored unfiltered; bake the stock into the poster like playback does
+      ctx.save();
+      ctx.filter = getFilmStock(photo.filterId).previewCss || 'none';
+      if (photo.mirrored) {
+        ctx.translate(imageX * 2 + imageW, 0);
+        ctx.scale(-1, 1);
+      }
+      drawCover(ctx, video, video.videoWidth, video.videoHeight, imageX, top, imageW, imageH);
+      ctx.restore();
+    } else {
+      const img = await loadImage(url);
+      drawCover(ctx, img, img.naturalWidth, img.naturalHeight, imageX, top, imageW, imageH);
+    }
+    if (photo.layers?.length) drawLayers(ctx, photo.layers, imageX, top, imageW, imageH);
+
+    const chinTop = top + imageH;
+    const chinHeight = height - chinTop;
+
+    ctx.fillStyle = isDarkFrame ? '#f3f4f6' : '#1f2937';
+    ctx.font = `${captionPx}px "Caveat", cursive`;
+    ctx.fillText(photo.caption || '', width / 2, chinTop + chinHeight * 0.42, imageSize);
+
+    ctx.fillStyle = isDarkFrame ? '#6b7280' : '#9ca3af';
+    ctx.font = `${monoPx}px "Special Elite", monospace`;
+    drawSpacedText(ctx, (photo.customText || formatPhotoDate(photo.timestamp)).toUpperCase(), width / 2, chinTop + chinHeight * 0.72, monoPx * 0.25);
+  } else {
+    const pad = mmToPx(4, dpi);
+    ctx.fillStyle = '#f8f8f8';
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.strokeStyle = '#d1d5db';
+    ctx.lineWidth = Math.max(2, dpi / 100);
+    ctx.setLineDash([ctx.lineWidth * 4, ctx.lineWidth * 3]);
+    ctx.beginPath();
+    ctx.roundRect(pad, pad, width - pad * 2, height - pad * 2, pad / 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.fillStyle = '#9ca3af';
+    ctx.font = `${monoPx * 1.2}px "Special Elite", monospace`;
+    drawSpacedText(ctx, 'NOTES', width / 2, pad * 2.5, monoPx * 0.3);
+
+    ctx.fillStyle = '#374151';
+    ctx.font = `${captionPx * 0.8}px "Caveat", cursive`;
+    const lines = wrapText(ctx, photo.backNote || '', width - pad * 4);
+    const lineHeight = captionPx;
+    const startY = height / 2 - ((lines.length - 1) * lineHeight) / 2;
+    lines.forEach((line, i) => ctx.fillText(line, width / 2, startY + i * lineHeight));
+
+    ctx.fillStyle = '#d1d5db';
+    ctx.font = `${monoPx}px "Special Elite", monospace`;
+    const stock = getFilmStock(photo.filterId);
+    if (stock.id !== 'none') {
+      drawSpacedText(ctx, `SHOT ON ${stock.name.toUpperCase()}`, width / 2, height - pad * 2.6, monoPx * 0.25);
+    }
+    ctx.fillText(formatPhotoDate(photo.timestamp), width / 2, height - pad * 1.8);
+  }
+
+  return canvas;
+};
+
+// Composite of the part of the board that has photos on it, at `scale` x board resolution
+export const renderBoard = async (photos: Photo[], cardWidth: number, scale = 2): Promise<HTMLCanvasElement> => {
+  const cardHeight = cardWidth * FRAME.height / FRAME.width;
+  const margin = cardWidth / 2;
+  const left = Math.min(...photos.map(p => p.x)) - margin;
+  const top = Math.min(...photos.map(p => p.y)) - margin;
+  const right = Math.max(...photos.map(p => p.x + cardWidth)) + margin;
+  const bottom = Math.max(...photos.map(p => p.y + cardHeight)) + margin;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil((right - left) * scale);
+  canvas.height = Math.ceil((bottom - top) * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+
+  ctx.fillStyle = '#1c1917';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  try {
+    const bg = await loadImage('/bg.png');
+    const cover = Math.max(canvas.width / bg.naturalWidth, canvas.height / bg.naturalHeight);
+    const bw = bg.naturalWidth * cover;
+    const bh = bg.naturalHeight * cover;
+    ctx.drawImage(bg, (canvas.width - bw) / 2, (canvas.height - bh) / 2, bw, bh);
+    ctx.fillStyle = 'rgba(0,0,0,0.3)';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  } catch {
+    // Plain background is fine for an export
+  }
+
+  // Enough resolution for the card's on-screen size at this scale
+  const dpi = Math.ceil(cardWidth * scale / FRAME.width * MM_PER_INCH);
+  const ordered = [...photos].sort((a, b) => a.zIndex - b.zIndex);
+
+  for (const photo of ordered) {
+    try {
+      const card = await renderPolaroid(photo, 'front', dpi);
+      const w = cardWidth * scale;
+      const h = w * FRAME.height / FRAME.width;
+      ctx.save();
+      ctx.translate((photo.x - left) * scale + w / 2, (photo.y - top) * scale + h / 2);
+      ctx.rotate(photo.rotation * Math.PI / 180);
+      ctx.shadowColor = 'rgba(0,0,0,0.3)';
+      ctx.shadowBlur = 15 * scale;
+      ctx.shadowOffsetX = 5 * scale;
+      ctx.shadowOffsetY = 5 * scale;
+      ctx.drawImage(card, -w / 2, -h / 2, w, h);
+      ctx.restore();
+    } catch (err) {
+      console.error(`Skipping photo ${photo.id} in board export:`, err);
+    }
+  }
+
+  return canvas;
+};
+
+// --- Minimal PDF writer: one JPEG XObject per card, A4 pages ---
+
+const A4 = { width: 595.28, height: 841.89 }; // points
+const PT_PER_MM = 72 / MM_PER_INCH;
+
+interface PdfImage {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const buildPdf = (pages: PdfImage[][]): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // Object ids: 1 catalog, 2 page tree, then per page: page, content, images...
+  let nextId = 3;
+  const layout = pages.map(images => ({
+    pageId: nextId++,
+    contentId: nextId++,
+    imageIds: images.map(() => nextId++)
+  }));
+
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${layout.map(p => `${p.pageId} 0 R`).join(' ')}] /Count ${layout.length} >>\nendobj\n`);
+
+  pages.forEach((images, i) => {
+    const { pageId, contentId, imageIds } = layout[i];
+    const xobjects = imageIds.map((id, j) => `/Im${j} ${id} 0 R`).join(' ');
+
+    beginObject(pageId);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] /Resources << /XObject << ${xobjects} >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+
+    const content = images.map((img, j) =>
+      `q ${img.width.toFixed(2)} 0 0 ${img.height.toFixed(2)} ${img.x.toFixed(2)} ${img.y.toFixed(2)} cm /Im${j} Do Q`
+    ).join('\n');
+    beginObject(contentId);
+    write(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    images.forEach((img, j) => {
+      beginObject(imageIds[j]);
+      write(`<< /Type /XObject /Subtype /Image /Width ${img.pixelWidth} /Height ${img.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${img.jpeg.length} >>\nstream\n`);
+      write(img.jpeg);
+      write('\nendstream\nendobj\n');
+    });
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${nextId}\n0000000000 65535 f \n`);
+  for (let id = 1; id < nextId; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${nextId} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
+
+const canvasToJpegBytes = async (canvas: HTMLCanvasElement) => {
+  const blob = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+// Contact sheet at true print size: four cards per A4 page with room for cutting
+export const exportContactSheetPdf = async (photos: Photo[]): Promise<Blob> => {
+  const cardW = FRAME.width * PT_PER_MM;
+  const cardH = FRAME.height * PT_PER_MM;
+  const gapX = (A4.width - cardW * 2) / 3;
+  const gapY = (A4.height - cardH * 2) / 3;
+  const slots = [
+    { x: gapX, y: gapY * 2 + cardH },
+    { x: gapX * 2 + cardW, y: gapY * 2 + cardH },
+    { x: gapX, y: gapY },
+    { x: gapX * 2 + cardW, y: gapY },
+  ];
+
+  const ordered = [...photos].sort((a, b) => a.timestamp - b.timestamp);
+  const pages: PdfImage[][] = [];
+
+  for (let i = 0; i < ordered.length; i++) {
+    if (i % slots.length === 0) pages.push([]);
+    try {
+      const card = await renderPolaroid(ordered[i], 'front', 300);
+      const slot = slots[i % slots.length];
+      pages[pages.length - 1].push({
+        jpeg: await canvasToJpegBytes(card),
+        pixelWidth: card.width,
+        pixelHeight: card.height,
+        x: slot.x,
+        y: slot.y,
+        width: cardW,
+        height: cardH
+      });
+    } catch (err) {
+      console.error(`Skipping photo ${ordered[i].id} in contact sheet:`, err);
+    }
+  }
+
+  return buildPdf(pages.filter(p => p.length > 0));
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode canvas')), type, quality);
+  });
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
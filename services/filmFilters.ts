@@ -0,0 +1,176 @@
+// Film stock emulation applied to captured frames
+
+type CurvePoints = [number, number][];
+
+export interface FilmStock {
+  id: string;
+  name: string;
+  // 3x3 colour matrix applied before the tone curves (rows are output r, g, b)
+  matrix?: number[];
+  curves?: { r?: CurvePoints; g?: CurvePoints; b?: CurvePoints };
+  saturation?: number;
+  grain?: number;
+  vignette?: number;
+  lightLeak?: number;
+  // CSS approximation used for the live viewfinder and for video playback
+  previewCss: string;
+}
+
+const SEPIA_MATRIX = [
+  0.393, 0.769, 0.189,
+  0.349, 0.686, 0.168,
+  0.272, 0.534, 0.131,
+];
+
+export const FILM_STOCKS: FilmStock[] = [
+  {
+    id: 'none',
+    name: 'Original',
+    previewCss: '',
+  },
+  {
+    id: 'sepia',
+    name: 'Sepia',
+    matrix: SEPIA_MATRIX,
+    curves: { r: [[0, 20], [255, 245]], g: [[0, 15], [255, 235]], b: [[0, 10], [255, 215]] },
+    grain: 0.08,
+    vignette: 0.35,
+    previewCss: 'sepia(0.9) contrast(1.05)',
+  },
+  {
+    id: 'bw',
+    name: 'B&W',
+    saturation: 0,
+    curves: { r: [[0, 0], [64, 45], [192, 210], [255, 255]], g: [[0, 0], [64, 45], [192, 210], [255, 255]], b: [[0, 0], [64, 45], [192, 210], [255, 255]] },
+    grain: 0.12,
+    vignette: 0.3,
+    previewCss: 'grayscale(1) contrast(1.25)',
+  },
+  {
+    id: 'cross-process',
+    name: 'Cross Process',
+    saturation: 1.2,
+    curves: {
+      r: [[0, 0], [64, 40], [192, 225], [255, 255]],
+      g: [[0, 0], [64, 50], [192, 215], [255, 255]],
+      b: [[0, 40], [255, 200]],
+    },
+    grain: 0.05,
+    vignette: 0.3,
+    previewCss: 'contrast(1.3) saturate(1.4) hue-rotate(-10deg)',
+  },
+  {
+    id: 'polaroid-600',
+    name: 'Polaroid 600',
+    saturation: 0.85,
+    curves: { r: [[0, 30], [128, 140], [255, 245]], g: [[0, 25], [128, 130], [255, 235]], b: [[0, 40], [128, 120], [255, 215]] },
+    grain: 0.06,
+    vignette: 0.25,
+    previewCss: 'sepia(0.25) saturate(0.85) contrast(0.9) brightness(1.05)',
+  },
+  {
+    id: 'expired',
+    name: 'Expired Film',
+    saturation: 1.15,
+    curves: { r: [[0, 45], [128, 150], [255, 250]], g: [[0, 20], [128, 118], [255, 225]], b: [[0, 55], [128, 135], [255, 205]] },
+    grain: 0.2,
+    vignette: 0.45,
+    lightLeak: 0.55,
+    previewCss: 'sepia(0.35) hue-rotate(-25deg) saturate(1.3) contrast(0.85) brightness(1.1)',
+  },
+];
+
+export const getFilmStock = (id?: string) => FILM_STOCKS.find(s => s.id === id) ?? FILM_STOCKS[0];
+
+// Piecewise-linear tone curve as a 256-entry lookup table
+const buildLut = (points: CurvePoints = [[0, 0], [255, 255]]) => {
+  const lut = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) {
+    let j = 0;
+    while (j < points.length - 2 && i > points[j + 1][0]) j++;
+    const [x0, y0] = points[j];
+    const [x1, y1] = points[Math.min(j + 1, points.length - 1)];
+    const t = x1 === x0 ? 0 : Math.min(1, Math.max(0, (i - x0) / (x1 - x0)));
+    lut[i] = y0 + (y1 - y0) * t;
+  }
+  return lut;
+};
+
+export const applyFilmStock = (canvas: HTMLCanvasElement, stockId?: string) => {
+  const stock = getFilmStock(stockId);
+  if (stock.id === 'none') return;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const { width, height } = canvas;
+  const image = ctx.getImageData(0, 0, width, height);
+  const px = image.data;
+
+  const lutR = buildLut(stock.curves?.r);
+  const lutG = buildLut(stock.curves?.g);
+  const lutB = buildLut(stock.curves?.b);
+  const m = stock.matrix;
+  const saturation = stock.saturation ?? 1;
+  const grain = (stock.grain ?? 0) * 255;
+
+  for (let i = 0; i < px.length; i += 4) {
+    let r = px[i], g = px[i + 1], b = px[i + 2];
+
+    if (m) {
+      const nr = m[0] * r + m[1] * g + m[2] * b;
+      const ng = m[3] * r + m[4] * g + m[5] * b;
+      const nb = m[6] * r + m[7] * g + m[8] * b;
+      r = nr; g = ng; b = nb;
+    }
+
+    if (saturation !== 1) {
+      const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+      r = luma + (r - luma) * saturation;
+      g = luma + (g - luma) * saturation;
+      b = luma + (b - luma) * saturation;
+    }
+
+    r = lutR[Math.max(0, Math.min(255, r | 0))];
+    g = lutG[Math.max(0, Math.min(255, g | 0))];
+    b = lutB[Math.max(0, Math.min(255, b | 0))];
+
+    if (grain) {
+      const noise = (Math.random() - 0.5) * grain;
+      r += noise; g += noise; b += noise;
+    }
+
+    px[i] = r;
+    px[i + 1] = g;
+    px[i + 2] = b;
+  }
+
+  ctx.putImageData(image, 0, 0);
+
+  const cx = width / 2;
+  const cy = height / 2;
+  const radius = Math.hypot(cx, cy);
+
+  if (stock.vignette) {
+    const gradient = ctx.createRadialGradient(cx, cy, radius * 0.45, cx, cy, radius);
+    gradient.addColorStop(0, 'rgba(0,0,0,0)');
+    gradient.addColorStop(1, `rgba(0,0,0,${stock.vignette})`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  if (stock.lightLeak) {
+    // Leak from a random edge so no two shots look the same
+    const lx = Math.random() < 0.5 ? 0 : width;
+    const ly = Math.random() * height;
+    const leak = ctx.createRadialGradient(lx, ly, 0, lx, ly, radius * 0.9);
+    leak.addColorStop(0, `rgba(255,120,40,${stock.lightLeak})`);
+    leak.addColorStop(0.5, `rgba(255,60,80,${stock.lightLeak * 0.4})`);
+    leak.addColorStop(1, 'rgba(255,60,80,0)');
+    ctx.save();
+    ctx.globalCompositeOperation = 'screen';
+    ctx.fillStyle = leak;
+    ctx.fillRect(0, 0, width, height);
+    ctx.restore();
+  }
+};
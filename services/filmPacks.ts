@@ -0,0 +1,117 @@
+import { supabase } from './supabaseClient';
+import { FrameAspect } from '../types';
+import { STRIP_RATIO } from './captureModes';
+
+// Image width / height for each frame format
+export const FRAME_ASPECTS: Record<FrameAspect, number> = {
+  square: 1,
+  wide: 99 / 62,
+  mini: 46 / 62,
+  strip: STRIP_RATIO,
+};
+
+export interface FilmPack {
+  id: string;
+  name: string;
+  shots: number;
+  aspect: FrameAspect;
+  defaultFilterId: string;
+  borderColor: string;
+}
+
+// Keep in sync with the film_packs seed in supabase_setup.sql (the server uses it to count shots)
+export const FILM_PACKS: FilmPack[] = [
+  { id: 'classic', name: 'Classic', shots: 8, aspect: 'square', defaultFilterId: 'polaroid-600', borderColor: '#ffffff' },
+  { id: 'black-frame', name: 'Black Frame', shots: 8, aspect: 'square', defaultFilterId: 'bw', borderColor: '#111111' },
+  { id: 'wide', name: 'Wide', shots: 10, aspect: 'wide', defaultFilterId: 'none', borderColor: '#ffffff' },
+  { id: 'mini', name: 'Mini', shots: 10, aspect: 'mini', defaultFilterId: 'cross-process', borderColor: '#f5e6c8' },
+  { id: 'expired', name: 'Expired', shots: 8, aspect: 'square', defaultFilterId: 'expired', borderColor: '#fdf6e3' },
+];
+
+export const getFilmPack = (id?: string | null) => FILM_PACKS.find(p => p.id === id) ?? FILM_PACKS[0];
+
+export const isDarkColor = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  const r = (value >> 16) & 255, g = (value >> 8) & 255, b = value & 255;
+  return 0.299 * r + 0.587 * g + 0.114 * b < 128;
+};
+
+export interface ShotBudget {
+  packId: string | null;
+  shotsLeft: number;
+  shotsTaken: number;
+  // Maximum shots per guest in this room, if the room owner set one
+  shotCap: number | null;
+}
+
+export interface InventoryItem {
+  packId: string;
+  quantity: number;
+}
+
+const mapBudget = (row: any, shotCap: number | null): ShotBudget => ({
+  packId: row?.pack_id ?? null,
+  shotsLeft: row?.shots_left ?? 0,
+  shotsTaken: row?.shots_taken ?? 0,
+  shotCap
+});
+
+const fetchShotCap = async (room: string) => {
+  const { data } = await supabase.from('rooms').select('shots_per_guest').eq('id', room).maybeSingle();
+  return data?.shots_per_guest ?? null;
+};
+
+export const fetchShotBudget = async (room: string): Promise<ShotBudget> => {
+  const [{ data, error }, shotCap] = await Promise.all([
+    supabase.from('shot_budgets').select('*').eq('room_id', room).maybeSingle(),
+    fetchShotCap(room)
+  ]);
+  if (error) throw error;
+  return mapBudget(data, shotCap);
+};
+
+// New users are given a starter set of packs the first time this is called
+export const fetchFilmInventory = async (): Promise<InventoryItem[]> => {
+  const { data, error } = await supabase.rpc('ensure_film_inventory');
+  if (error) throw error;
+  return (data ?? []).map((row: any) => ({ packId: row.pack_id, quantity: row.quantity }));
+};
+
+// Uses one pack from the inventory and loads it for this room
+export const loadFilmPack = async (room: string, packId: string): Promise<ShotBudget> => {
+  const { data, error } = await supabase.rpc('load_film_pack', { p_room: room, p_pack: packId });
+  if (error) throw error;
+  return mapBudget(data, await fetchShotCap(room));
+};
+
+// Kiosk booths load the host's chosen pack without using the inventory. A new guest gets
+// the room's per-guest shots again; a reload mid-turn still counts against their cap.
+export const loadKioskFilm = async (room: string, packId: string, newGuest: boolean): Promise<ShotBudget> => {
+  const { data, error } = await supabase.rpc('load_kiosk_film', { p_room: room, p_pack: packId, p_new_guest: newGuest });
+  if (error) throw error;
+  return mapBudget(data, await fetchShotCap(room));
+};
+
+// Counts exposures against the budget, all or none; fails when the roll or the room cap would be exceeded
+export const takeShot = async (room: string, count = 1): Promise<ShotBudget> => {
+  const { data, error } = await supabase.rpc('take_shot', { p_room: room, p_count: count });
+  if (error) throw error;
+  return mapBudget(data, await fetchShotCap(room));
+};
+
+// Signed-out sessions keep their roll on this device so a refresh isn't a free reload
+const LOCAL_BUDGET_KEY = 'retrocam:shot-budget';
+
+export const loadLocalBudget = (): ShotBudget => {
+  try {
+    const stored = localStorage.getItem(LOCAL_BUDGET_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch {
+    // Fall through to a fresh roll
+  }
+  return { packId: FILM_PACKS[0].id, shotsLeft: FILM_PACKS[0].shots, shotsTaken: 0, shotCap: null };
+};
+
+export const saveLocalBudget = (budget: ShotBudget) => {
+  localStorage.setItem(LOCAL_BUDGET_KEY, JSON.stringify(budget));
+};
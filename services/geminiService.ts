@@ -1,23 +1,23 @@
 import { GoogleGenAI } from "@google/genai";
+import type { CaptionProvider } from './captionService';
 
 const GEMINI_API_KEY = process.env.API_KEY || '';
 
-export const generateCaption = async (base64Image: string): Promise<string> => {
-  if (!GEMINI_API_KEY) {
-    console.warn("No API Key provided for Gemini.");
-    return "Memories captured in time...";
-  }
-
-  try {
+export const geminiCaptionProvider: CaptionProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  defaultModel: 'gemini-2.5-flash',
+  isAvailable: () => !!GEMINI_API_KEY,
+  generate: async ({ image, prompt, model, temperature }) => {
     const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
 
     // Extract actual base64 data if it contains the prefix
-    const cleanBase64 = base64Image.includes('base64,')
-      ? base64Image.split('base64,')[1]
-      : base64Image;
+    const cleanBase64 = image.includes('base64,')
+      ? image.split('base64,')[1]
+      : image;
 
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+      model,
       contents: {
         parts: [
           {
@@ -27,19 +27,16 @@ export const generateCaption = async (base64Image: string): Promise<string> => {
             }
           },
           {
-            text: "Generate a very short, funny, witty, or sarcastic handwritten-style caption (max 6 words) for this polaroid photo. Make it sound like a fun memory or a joke. Return only the text."
+            text: prompt
           }
         ]
       },
       config: {
         thinkingConfig: { thinkingBudget: 0 }, // Disable thinking for speed
-        temperature: 0.7,
+        temperature,
       }
     });
 
-    return response.text.trim() || "A beautiful moment.";
-  } catch (error) {
-    console.error("Gemini caption generation failed:", error);
-    return "Captured moment #84";
+    return response.text?.trim() ?? '';
   }
-};
\ No newline at end of file
+};
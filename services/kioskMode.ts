@@ -0,0 +1,60 @@
+import { CaptionStyle, DEFAULT_CAPTION_STYLE } from './captionService';
+import { FILM_PACKS } from './filmPacks';
+
+// A locked setup for an unattended booth. It lives on the device running the booth,
+// so a tablet stays a kiosk across reloads until someone with the PIN unlocks it.
+export interface KioskConfig {
+  enabled: boolean;
+  // SHA-256 of the admin PIN; empty until one is set
+  pinHash: string;
+  room: string;
+  packId: string;
+  aiCaptions: boolean;
+  captionStyle: CaptionStyle;
+  // Written on every card when AI captions are off
+  customText: string;
+  // Back to the attract screen after this long without a touch
+  idleSeconds: number;
+  // Each ejected card carries a code linking to the photo in the room gallery
+  showQr: boolean;
+}
+
+export const KIOSK_IDLE_OPTIONS = [30, 60, 120, 300];
+export const MIN_PIN_LENGTH = 4;
+
+export const DEFAULT_KIOSK_CONFIG: KioskConfig = {
+  enabled: false,
+  pinHash: '',
+  room: '',
+  packId: FILM_PACKS[0].id,
+  aiCaptions: true,
+  captionStyle: DEFAULT_CAPTION_STYLE,
+  customText: '',
+  idleSeconds: 60,
+  showQr: true,
+};
+
+const KIOSK_KEY = 'retrocam:kiosk';
+
+export const loadKioskConfig = (): KioskConfig => {
+  try {
+    const stored = localStorage.getItem(KIOSK_KEY);
+    if (stored) return { ...DEFAULT_KIOSK_CONFIG, ...JSON.parse(stored) };
+  } catch {
+    // Use defaults
+  }
+  return DEFAULT_KIOSK_CONFIG;
+};
+
+export const saveKioskConfig = (config: KioskConfig) => {
+  localStorage.setItem(KIOSK_KEY, JSON.stringify(config));
+};
+
+// Only the hash is kept, so the PIN can't be read back out of storage by a curious guest
+export const hashPin = async (pin: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`retrocam:${pin}`));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const checkPin = async (config: KioskConfig, pin: string) =>
+  !!config.pinHash && await hashPin(pin) === config.pinHash;
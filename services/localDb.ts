@@ -0,0 +1,57 @@
+// Minimal promise wrapper around the app's IndexedDB database
+
+const DB_NAME = 'retrocam';
+const DB_VERSION = 2;
+
+export const STORES = {
+  media: 'media',
+  photos: 'photos',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.media)) {
+          db.createObjectStore(STORES.media);
+        }
+        if (!db.objectStoreNames.contains(STORES.photos)) {
+          db.createObjectStore(STORES.photos, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: StoreName, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = fn(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const idbGet = <T>(store: StoreName, key: IDBValidKey) =>
+  run<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const idbGetAll = <T>(store: StoreName) =>
+  run<T[]>(store, 'readonly', s => s.getAll());
+
+export const idbPut = (store: StoreName, value: unknown, key?: IDBValidKey) =>
+  run<IDBValidKey>(store, 'readwrite', s => key === undefined ? s.put(value) : s.put(value, key));
+
+export const idbDelete = (store: StoreName, key: IDBValidKey) =>
+  run<void>(store, 'readwrite', s => s.delete(key));
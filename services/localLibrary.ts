@@ -0,0 +1,89 @@
+import { supabase } from './supabaseClient';
+import { idbGet, idbGetAll, idbPut, idbDelete, STORES } from './localDb';
+import { urlToBlob } from './mediaStorage';
+import { savePhotoToRoom } from './photoService';
+import { screenCapture } from './moderationService';
+import { fromStoredPoint, COORD_VERSION } from './boardCoords';
+import { Photo } from '../types';
+
+// Signed-out boards are kept on this device: metadata in one store, the media blob in another
+
+const mediaKey = (id: string) => `local/${id}`;
+
+// Records saved before the board existed have no version and hold screen pixels
+type PhotoRecord = Photo & { coordVersion?: number };
+
+// Object URLs only live as long as the page, so they are never persisted
+const toRecord = (photo: Photo): PhotoRecord => ({
+  ...photo,
+  dataUrl: '',
+  isDeveloping: false,
+  isEjecting: false,
+  isStaticNegative: false,
+  coordVersion: COORD_VERSION
+});
+
+const fromRecord = ({ coordVersion, ...photo }: PhotoRecord): Photo => ({
+  ...photo,
+  ...fromStoredPoint(photo.x, photo.y, coordVersion)
+});
+
+export const saveLocalPhoto = async (photo: Photo) => {
+  const blob = await urlToBlob(photo.dataUrl);
+  await idbPut(STORES.media, blob, mediaKey(photo.id));
+  await idbPut(STORES.photos, toRecord(photo));
+};
+
+export const updateLocalPhoto = async (id: string, changes: Partial<Photo>) => {
+  const existing = await idbGet<PhotoRecord>(STORES.photos, id);
+  if (!existing) return;
+  await idbPut(STORES.photos, toRecord({ ...fromRecord(existing), ...changes, id }));
+};
+
+export const removeLocalPhoto = async (id: string) => {
+  await idbDelete(STORES.photos, id);
+  await idbDelete(STORES.media, mediaKey(id));
+};
+
+export const loadLocalPhotos = async ({ trashed = false } = {}): Promise<Photo[]> => {
+  const records = (await idbGetAll<PhotoRecord>(STORES.photos)).filter(r => !!r.deletedAt === trashed);
+  const photos = await Promise.all(records.map(async (record) => {
+    const blob = await idbGet<Blob>(STORES.media, mediaKey(record.id));
+    return blob ? { ...fromRecord(record), dataUrl: URL.createObjectURL(blob) } : null;
+  }));
+  return photos
+    .filter((p): p is Photo => p !== null)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const countLocalPhotos = async () => (await idbGetAll<Photo>(STORES.photos)).filter(r => !r.deletedAt).length;
+
+// Upload the local library into a room. Photos keep their ids, so anything that
+// is already in the database (from an earlier merge) is skipped. Each one is
+// pre-screened like a fresh capture, and leaves the library once it's in the room,
+// so the same photos can't be merged a second time.
+export const uploadLocalPhotos = async (room: string) => {
+  const local = await loadLocalPhotos();
+  if (local.length === 0) return { uploaded: 0, skipped: 0 };
+
+  const { data: existing, error } = await supabase
+    .from('photos')
+    .select('id')
+    .in('id', local.map(p => p.id));
+  if (error) throw error;
+
+  const existingIds = new Set((existing ?? []).map((row: any) => row.id));
+  let uploaded = 0;
+
+  for (const photo of local) {
+    if (!existingIds.has(photo.id)) {
+      const flags = await screenCapture({ image: photo.mediaType === 'video' ? undefined : photo.dataUrl, caption: photo.caption });
+      await savePhotoToRoom(room, { ...photo, flags });
+      uploaded++;
+    }
+    await removeLocalPhoto(photo.id);
+    URL.revokeObjectURL(photo.dataUrl);
+  }
+
+  return { uploaded, skipped: local.length - uploaded };
+};
@@ -0,0 +1,150 @@
+import { supabase } from './supabaseClient';
+import { idbGet, idbPut, idbDelete, STORES } from './localDb';
+import { Photo } from '../types';
+
+const BUCKET = 'photos';
+const SIGNED_URL_TTL = 60 * 60; // seconds
+
+export interface MediaStorageAdapter {
+  upload: (key: string, blob: Blob) => Promise<void>;
+  getUrl: (key: string) => Promise<string>;
+  remove: (key: string) => Promise<void>;
+}
+
+// Resolved URLs are cached so re-rendering a card doesn't re-sign or re-read the object
+const urlCache = new Map<string, { url: string; expiresAt: number }>();
+
+const cached = async (key: string, ttlMs: number, resolve: () => Promise<string>) => {
+  const hit = urlCache.get(key);
+  if (hit && hit.expiresAt > Date.now()) return hit.url;
+  const url = await resolve();
+  urlCache.set(key, { url, expiresAt: Date.now() + ttlMs });
+  return url;
+};
+
+export const supabaseStorageAdapter: MediaStorageAdapter = {
+  upload: async (key, blob) => {
+    // Never overwrites: once a photo points at its file, the policies keep it as it was reviewed
+    const { error } = await supabase.storage.from(BUCKET).upload(key, blob, { contentType: blob.type });
+    if (error) throw error;
+  },
+  getUrl: (key) => cached(key, (SIGNED_URL_TTL - 60) * 1000, async () => {
+    const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(key, SIGNED_URL_TTL);
+    if (error || !data) throw error ?? new Error(`No URL for ${key}`);
+    return data.signedUrl;
+  }),
+  remove: async (key) => {
+    urlCache.delete(key);
+    const { error } = await supabase.storage.from(BUCKET).remove([key]);
+    if (error) throw error;
+  }
+};
+
+// Local stand-in for development and tests: blobs live in IndexedDB and are served as object URLs
+export const indexedDbStorageAdapter: MediaStorageAdapter = {
+  upload: async (key, blob) => {
+    await idbPut(STORES.media, blob, key);
+  },
+  getUrl: (key) => cached(key, Infinity, async () => {
+    const blob = await idbGet<Blob>(STORES.media, key);
+    if (!blob) throw new Error(`No local media for ${key}`);
+    return URL.createObjectURL(blob);
+  }),
+  remove: async (key) => {
+    const hit = urlCache.get(key);
+    if (hit) URL.revokeObjectURL(hit.url);
+    urlCache.delete(key);
+    await idbDelete(STORES.media, key);
+  }
+};
+
+export const mediaStorage: MediaStorageAdapter =
+  import.meta.env.VITE_MEDIA_STORAGE === 'local' ? indexedDbStorageAdapter : supabaseStorageAdapter;
+
+const extensionFor = (mimeType: string) => {
+  if (mimeType.startsWith('image/png')) return 'png';
+  if (mimeType.startsWith('image/')) return 'jpg';
+  if (mimeType.startsWith('video/mp4')) return 'mp4';
+  return 'webm';
+};
+
+export interface StoredMedia {
+  objectKey: string;
+  mimeType: string;
+  byteSize: number;
+}
+
+// Works for both data: and blob: URLs
+export const urlToBlob = async (url: string) => (await fetch(url)).blob();
+
+export const uploadMedia = async (room: string, photoId: string, blob: Blob): Promise<StoredMedia> => {
+  const mimeType = blob.type || 'image/jpeg';
+  const objectKey = `${room}/${photoId}.${extensionFor(mimeType)}`;
+  await mediaStorage.upload(objectKey, blob);
+  return { objectKey, mimeType, byteSize: blob.size };
+};
+
+// Photos from the database carry only an object key; the URL is looked up when a card needs it
+export const resolveMediaUrl = async (photo: Photo): Promise<string> => {
+  if (photo.dataUrl) return photo.dataUrl;
+  if (photo.objectKey) return mediaStorage.getUrl(photo.objectKey);
+
+  // Legacy row that hasn't been migrated yet: fetch its inline data on demand
+  const { data, error } = await supabase.from('photos').select('data_url').eq('id', photo.id).single();
+  if (error || !data?.data_url) throw error ?? new Error(`No media for photo ${photo.id}`);
+  return data.data_url;
+};
+
+// Move base64 `data_url` rows into object storage. Each owner migrates their own
+// rows (RLS only allows updating your own photos), so this is run for the signed-in user.
+export const migrateLegacyPhotos = async (room: string, userId: string) => {
+  const { data: rows, error } = await supabase
+    .from('photos')
+    .select('id, data_url')
+    .eq('room_id', room)
+    .eq('user_id', userId)
+    .is('object_key', null)
+    .not('data_url', 'is', null);
+
+  if (error || !rows) {
+    if (error) console.error("Error listing legacy photos:", error);
+    return;
+  }
+
+  for (const row of rows) {
+    try {
+      const blob = await urlToBlob(row.data_url);
+      const { width, height } = await measureMedia(row.data_url, blob.type);
+      const media = await uploadMedia(room, row.id, blob);
+
+      const { error: updateError } = await supabase.from('photos').update({
+        object_key: media.objectKey,
+        mime_type: media.mimeType,
+        byte_size: media.byteSize,
+        width,
+        height,
+        data_url: null
+      }).eq('id', row.id);
+
+      if (updateError) throw updateError;
+    } catch (err) {
+      console.error(`Failed to migrate photo ${row.id}:`, err);
+    }
+  }
+};
+
+export const measureMedia = (url: string, mimeType: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve) => {
+    if (mimeType.startsWith('video/')) {
+      const video = document.createElement('video');
+      video.preload = 'metadata';
+      video.onloadedmetadata = () => resolve({ width: video.videoWidth, height: video.videoHeight });
+      video.onerror = () => resolve({ width: 0, height: 0 });
+      video.src = url;
+    } else {
+      const img = new Image();
+      img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+      img.onerror = () => resolve({ width: 0, height: 0 });
+      img.src = url;
+    }
+  });
@@ -0,0 +1,133 @@
+import { supabase } from './supabaseClient';
+import { Photo } from '../types';
+import { mapPhotoRow, PHOTO_COLUMNS } from './photoService';
+
+export type PreScreenerId = 'local' | 'off';
+
+export interface ScreenRequest {
+  // JPEG data URL of a still capture; clips are only screened by their caption
+  image?: string;
+  caption?: string;
+}
+
+// Reads a capture before it is published and gives the reasons it should be held for review.
+// No reasons means it goes straight up (unless the room holds everything).
+export interface PreScreener {
+  id: PreScreenerId;
+  label: string;
+  screen: (request: ScreenRequest) => Promise<string[]>;
+}
+
+// --- Local screener: a few rules, runs on the device ---
+
+// Matched at the start of a word, so 'fucking' is caught but 'Scunthorpe' isn't.
+// The database applies the same rules again on insert (screen_text), so keep them in step.
+const BLOCKED_WORDS = /\b(fuck|shit|bitch|cunt|dick|pussy|nazi|slut|whore|fag|retard)/i;
+const LINK_PATTERN = /\b(https?:\/\/|www\.)\S+|\b\S+\.(com|net|org|io|ly|gg)\b/i;
+const CONTACT_PATTERN = /\S+@\S+\.\S+|(\+?\d[\d\s().-]{7,}\d)/;
+
+const screenCaption = (caption: string) => {
+  const flags: string[] = [];
+  if (BLOCKED_WORDS.test(caption)) flags.push('Caption: strong language');
+  if (LINK_PATTERN.test(caption)) flags.push('Caption: link');
+  if (CONTACT_PATTERN.test(caption)) flags.push('Caption: contact details');
+  return flags;
+};
+
+// Mean brightness and contrast of a thumbnail; a covered lens or a blank frame is flat and dark
+const frameStats = (image: string): Promise<{ luma: number; spread: number } | null> =>
+  new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = 16;
+      canvas.height = 16;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return resolve(null);
+      ctx.drawImage(img, 0, 0, 16, 16);
+      const px = ctx.getImageData(0, 0, 16, 16).data;
+      const lumas: number[] = [];
+      for (let i = 0; i < px.length; i += 4) {
+        lumas.push(0.299 * px[i] + 0.587 * px[i + 1] + 0.114 * px[i + 2]);
+      }
+      const luma = lumas.reduce((sum, l) => sum + l, 0) / lumas.length;
+      const spread = Math.sqrt(lumas.reduce((sum, l) => sum + (l - luma) ** 2, 0) / lumas.length);
+      resolve({ luma, spread });
+    };
+    img.onerror = () => resolve(null);
+    img.src = image;
+  });
+
+export const localPreScreener: PreScreener = {
+  id: 'local',
+  label: 'Local rules',
+  screen: async ({ image, caption }) => {
+    const flags = caption ? screenCaption(caption) : [];
+    const stats = image && typeof Image !== 'undefined' ? await frameStats(image) : null;
+    if (stats && stats.luma < 12) flags.push('Photo: nearly black');
+    else if (stats && stats.spread < 4) flags.push('Photo: blank frame');
+    return flags;
+  }
+};
+
+export const offPreScreener: PreScreener = {
+  id: 'off',
+  label: 'Off',
+  screen: async () => [],
+};
+
+// A hosted classifier plugs in here, and is picked with VITE_PRE_SCREENER
+export const PRE_SCREENERS: Record<PreScreenerId, PreScreener> = {
+  local: localPreScreener,
+  off: offPreScreener,
+};
+
+export const DEFAULT_PRE_SCREENER: PreScreenerId = (import.meta.env.VITE_PRE_SCREENER as PreScreenerId) || 'local';
+
+// A screener that fails holds the capture back rather than letting it through unseen
+export const screenCapture = async (request: ScreenRequest, screenerId: PreScreenerId = DEFAULT_PRE_SCREENER): Promise<string[]> => {
+  const screener = PRE_SCREENERS[screenerId] ?? localPreScreener;
+  try {
+    return await screener.screen(request);
+  } catch (error) {
+    console.error(`${screener.label} pre-screen failed:`, error);
+    return ['Could not be screened'];
+  }
+};
+
+// The review queue, oldest first
+export const fetchPendingPhotos = async (room: string): Promise<Photo[]> => {
+  const { data, error } = await supabase
+    .from('photos')
+    .select(PHOTO_COLUMNS)
+    .eq('room_id', room)
+    .eq('status', 'pending')
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data ?? []).map((p: any) => mapPhotoRow(p));
+};
+
+export const countPendingPhotos = async (room: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('photos')
+    .select('id', { count: 'exact', head: true })
+    .eq('room_id', room)
+    .eq('status', 'pending')
+    .is('deleted_at', null);
+  if (error) throw error;
+  return count ?? 0;
+};
+
+export const isRoomModerator = async (room: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('is_room_moderator', { p_room: room });
+  if (error) throw error;
+  return !!data;
+};
+
+// Moderators only (enforced by the function)
+export const moderatePhoto = async (id: string, approve: boolean): Promise<Photo> => {
+  const { data, error } = await supabase.rpc('moderate_photo', { p_id: id, p_approve: approve });
+  if (error) throw error;
+  return mapPhotoRow(data);
+};
@@ -0,0 +1,282 @@
+import { supabase } from './supabaseClient';
+import { uploadMedia, urlToBlob, mediaStorage } from './mediaStorage';
+import { Photo, PhotoLayer, PhotoStatus } from '../types';
+import { groupReactions } from './reactionService';
+import { fromStoredPoint, COORD_VERSION, BoardRegion } from './boardCoords';
+
+// Everything except the legacy inline `data_url`, which is loaded lazily per card,
+// plus who reacted with what and how many comments there are
+export const PHOTO_COLUMNS = 'id, created_at, user_id, room_id, caption, x, y, rotation, z_index, moved_at, deleted_at, filter_id, aspect, border_color, back_note, object_key, mime_type, byte_size, width, height, coord_version, clip_start, clip_end, poster_time, mirrored, layers, status, flags, share_token, reaction_count, photo_reactions(emoji, user_id), photo_comments(count)';
+
+export const formatPhotoDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    year: '2-digit',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+
+// Map a `photos` row to the Photo shape used by the board
+export const mapPhotoRow = (p: any, overrides: Partial<Photo> = {}): Photo => {
+  const position = fromStoredPoint(p.x, p.y, p.coord_version);
+  return {
+    id: p.id,
+    dataUrl: p.data_url ?? '',
+    objectKey: p.object_key ?? undefined,
+    mimeType: p.mime_type ?? undefined,
+    byteSize: p.byte_size ?? undefined,
+    width: p.width ?? undefined,
+    height: p.height ?? undefined,
+    timestamp: new Date(p.created_at).getTime(),
+    isDeveloping: false,
+    isStaticNegative: false,
+    isEjecting: false,
+    caption: p.caption,
+    x: position.x,
+    y: position.y,
+    rotation: p.rotation,
+    zIndex: p.z_index,
+    customText: p.caption ? undefined : "Shared Memory",
+    mediaType: (p.mime_type ?? p.data_url ?? '').match(/^(data:)?video/) ? 'video' : 'photo',
+    filterId: p.filter_id ?? undefined,
+    aspect: p.aspect ?? 'square',
+    borderColor: p.border_color ?? undefined,
+    clipStart: p.clip_start ?? undefined,
+    clipEnd: p.clip_end ?? undefined,
+    posterTime: p.poster_time ?? undefined,
+    mirrored: p.mirrored || undefined,
+    layers: p.layers ?? undefined,
+    // Realtime rows come without the embedded reactions and comment count
+    reactions: p.photo_reactions ? groupReactions(p.photo_reactions) : undefined,
+    reactionCount: p.reaction_count ?? undefined,
+    commentCount: p.photo_comments?.[0]?.count ?? undefined,
+    status: p.status ?? undefined,
+    flags: p.flags?.length ? p.flags : undefined,
+    shareToken: p.share_token ?? undefined,
+    backNote: p.back_note ?? undefined,
+    userId: p.user_id,
+    movedAt: p.moved_at ? new Date(p.moved_at).getTime() : undefined,
+    deletedAt: p.deleted_at ? new Date(p.deleted_at).getTime() : undefined,
+    ...overrides
+  };
+};
+
+// Upload a photo's media and insert its row. The database decides whether it is published
+// straight away or held for review, and that status is returned.
+export const savePhotoToRoom = async (room: string, photo: Photo): Promise<PhotoStatus> => {
+  const blob = await urlToBlob(photo.dataUrl);
+  const media = await uploadMedia(room, photo.id, blob);
+
+  const { data, error } = await supabase.from('photos').insert({
+    id: photo.id,
+    room_id: room,
+    object_key: media.objectKey,
+    mime_type: media.mimeType,
+    byte_size: media.byteSize,
+    width: photo.width,
+    height: photo.height,
+    caption: photo.caption,
+    filter_id: photo.filterId,
+    aspect: photo.aspect ?? 'square',
+    border_color: photo.borderColor,
+    back_note: photo.backNote,
+    clip_start: photo.clipStart,
+    clip_end: photo.clipEnd,
+    poster_time: photo.posterTime,
+    mirrored: !!photo.mirrored,
+    layers: photo.layers ?? null,
+    flags: photo.flags ?? [],
+    share_token: photo.shareToken,
+    x: photo.x,
+    y: photo.y,
+    coord_version: COORD_VERSION,
+    rotation: photo.rotation,
+    z_index: photo.zIndex
+  }).select('status').single();
+
+  if (error) throw error;
+  return data.status;
+};
+
+// Long enough for the database's check; the same shape as the tokens it makes itself
+export const newShareToken = () => crypto.randomUUID().replace(/-/g, '') + crypto.randomUUID().replace(/-/g, '');
+
+// Keyset position in a room's photos, ordered by (created_at, id),
+// or by (reaction_count, created_at, id) when sorting by reactions
+export interface PhotoCursor {
+  createdAt: string;
+  id: string;
+  reactionCount?: number;
+}
+
+export const PHOTO_PAGE_SIZE = 100;
+
+// Gallery filters; every one that is set must match
+export interface PhotoFilters {
+  userId?: string;
+  mediaType?: 'photo' | 'video';
+  search?: string;
+}
+
+// The same filters, for photos that are already in memory (e.g. the signed-out library)
+export const matchesPhotoFilters = (photo: Photo, { userId, mediaType, search }: PhotoFilters) =>
+  (!userId || photo.userId === userId) &&
+  (!mediaType || (photo.mediaType ?? 'photo') === mediaType) &&
+  (!search || (photo.caption ?? '').toLowerCase().includes(search.toLowerCase()));
+
+// One page of a room's photos, oldest first unless `newestFirst`, optionally only
+// those whose top-left corner is inside `region`. `byReactions` puts the most reacted
+// first, newest first among equals. `next` is null on the last page.
+export const fetchPhotoPage = async (
+  room: string,
+  { region, filters = {}, newestFirst = false, byReactions = false, publishedOnly = false, after, limit = PHOTO_PAGE_SIZE }: {
+    region?: BoardRegion;
+    filters?: PhotoFilters;
+    newestFirst?: boolean;
+    byReactions?: boolean;
+    // Leave out what is held for review, which the uploader and moderators could otherwise see
+    publishedOnly?: boolean;
+    after?: PhotoCursor | null;
+    limit?: number;
+  } = {}
+): Promise<{ photos: Photo[]; next: PhotoCursor | null }> => {
+  let query = supabase
+    .from('photos')
+    .select(PHOTO_COLUMNS)
+    .eq('room_id', room)
+    .is('deleted_at', null);
+
+  if (region) {
+    query = query.gte('x', region.left).lt('x', region.right).gte('y', region.top).lt('y', region.bottom);
+  }
+  if (publishedOnly) query = query.eq('status', 'published');
+  if (filters.userId) query = query.eq('user_id', filters.userId);
+  if (filters.mediaType === 'video') query = query.like('mime_type', 'video/%');
+  if (filters.mediaType === 'photo') query = query.or('mime_type.is.null,mime_type.not.like.video/*');
+  if (filters.search) query = query.ilike('caption', `%${filters.search}%`);
+  if (after && byReactions) {
+    const count = after.reactionCount ?? 0;
+    query = query.or(`reaction_count.lt.${count},and(reaction_count.eq.${count},created_at.lt."${after.createdAt}"),and(reaction_count.eq.${count},created_at.eq."${after.createdAt}",id.lt.${after.id})`);
+  } else if (after) {
+    const op = newestFirst ? 'lt' : 'gt';
+    query = query.or(`created_at.${op}."${after.createdAt}",and(created_at.eq."${after.createdAt}",id.${op}.${after.id})`);
+  }
+  if (byReactions) query = query.order('reaction_count', { ascending: false });
+
+  const ascending = !newestFirst && !byReactions;
+  const { data, error } = await query
+    .order('created_at', { ascending })
+    .order('id', { ascending })
+    .limit(limit);
+  if (error) throw error;
+
+  const rows = data ?? [];
+  const last: any = rows[rows.length - 1];
+  return {
+    photos: rows.map((p: any) => mapPhotoRow(p)),
+    next: rows.length === limit ? { createdAt: last.created_at, id: last.id, reactionCount: last.reaction_count } : null,
+  };
+};
+
+// Every photo in the room, page by page: the board only holds the tiles in view
+export const fetchAllPhotos = async (room: string): Promise<Photo[]> => {
+  const photos: Photo[] = [];
+  let after: PhotoCursor | null = null;
+  do {
+    const page = await fetchPhotoPage(room, { after });
+    photos.push(...page.photos);
+    after = page.next;
+  } while (after);
+  return photos;
+};
+
+// Last-writer-wins: a layout change only applies if it is at least as recent as the one we have
+export const isNewerMove = (incoming: number | undefined, current: number | undefined) => {
+  if (incoming === undefined) return false;
+  return current === undefined || incoming >= current;
+};
+
+// Persist a card's layout. The server applies the same last-writer-wins rule,
+// so a slow request can't overwrite a newer move from someone else.
+export const movePhoto = async (photo: Pick<Photo, 'id' | 'x' | 'y' | 'rotation' | 'zIndex' | 'movedAt'>) => {
+  const { error } = await supabase.rpc('move_photo', {
+    p_id: photo.id,
+    p_x: photo.x,
+    p_y: photo.y,
+    p_rotation: photo.rotation,
+    p_z_index: photo.zIndex,
+    p_moved_at: new Date(photo.movedAt ?? Date.now()).toISOString()
+  });
+
+  if (error) {
+    console.error("Error moving photo:", error);
+  }
+};
+
+export const fetchPhotosByIds = async (ids: string[]) => {
+  const { data, error } = await supabase
+    .from('photos')
+    .select(PHOTO_COLUMNS)
+    .in('id', ids)
+    .is('deleted_at', null);
+  if (error) throw error;
+  return (data ?? []).map((p: any) => mapPhotoRow(p));
+};
+
+// Owner only (enforced by the update policy)
+export const saveBackNote = async (id: string, backNote: string) => {
+  const { error } = await supabase.from('photos').update({ back_note: backNote }).eq('id', id);
+  if (error) throw error;
+};
+
+export const saveLayers = async (id: string, layers: PhotoLayer[]) => {
+  const { error } = await supabase.from('photos').update({ layers }).eq('id', id);
+  if (error) throw error;
+};
+
+// Soft delete: the row stays in the trash until it is restored or deleted for good
+export const trashPhotos = async (ids: string[]) => {
+  const { error } = await supabase
+    .from('photos')
+    .update({ deleted_at: new Date().toISOString() })
+    .in('id', ids);
+  if (error) throw error;
+};
+
+export const restorePhotos = async (ids: string[]) => {
+  const { error } = await supabase.rpc('restore_photos', { p_ids: ids });
+  if (error) throw error;
+};
+
+// Room owners only; returns the ids that were moved to the trash
+export const clearRoom = async (room: string): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('clear_room', { p_room: room });
+  if (error) throw error;
+  return (data ?? []) as string[];
+};
+
+// Uploaders and room owners; throws if the photo wasn't deleted
+export const deletePhotoForever = async (photo: Photo) => {
+  const { data: objectKey, error } = await supabase.rpc('delete_photo_forever', { p_id: photo.id });
+  if (error) throw error;
+  if (objectKey) {
+    await mediaStorage.remove(objectKey).catch(err => console.error("Error removing photo media:", err));
+  }
+};
+
+// Trashed photos this user can restore: their own, or everything if they own the room
+export const fetchTrash = async (room: string, userId: string, isRoomOwner: boolean) => {
+  let query = supabase
+    .from('photos')
+    .select(PHOTO_COLUMNS)
+    .eq('room_id', room)
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+  if (!isRoomOwner) query = query.eq('user_id', userId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []).map((p: any) => mapPhotoRow(p));
+};
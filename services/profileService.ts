@@ -0,0 +1,37 @@
+import { supabase } from './supabaseClient';
+
+export interface Profile {
+  id: string;
+  displayName: string;
+}
+
+// Same hue for the same person on every device
+export const colorForUser = (userId: string) => {
+  const colorHash = userId.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
+  return `hsl(${colorHash % 360}, 70%, 60%)`;
+};
+
+export const initialOf = (name: string) => name.trim().charAt(0).toUpperCase() || '?';
+
+// Accounts made before profiles existed fall back to the start of their email
+const fallbackName = (user: any) => user.user_metadata?.display_name || user.email?.split('@')[0] || 'Guest';
+
+export const fetchProfile = async (user: any): Promise<Profile> => {
+  const { data, error } = await supabase.from('profiles').select('id, display_name').eq('id', user.id).maybeSingle();
+  if (error) console.error("Error loading profile:", error);
+  return { id: user.id, displayName: data?.display_name || fallbackName(user) };
+};
+
+export const saveProfile = async (userId: string, displayName: string): Promise<Profile> => {
+  const { error } = await supabase.from('profiles').upsert({ id: userId, display_name: displayName, updated_at: new Date().toISOString() });
+  if (error) throw error;
+  return { id: userId, displayName };
+};
+
+// Display names for a set of users, e.g. the authors in a room
+export const fetchDisplayNames = async (userIds: string[]): Promise<Record<string, string>> => {
+  if (userIds.length === 0) return {};
+  const { data, error } = await supabase.from('profiles').select('id, display_name').in('id', userIds);
+  if (error) throw error;
+  return Object.fromEntries((data ?? []).filter((p: any) => p.display_name).map((p: any) => [p.id, p.display_name]));
+};
@@ -0,0 +1,36 @@
+import { supabase } from './supabaseClient';
+import { PhotoReactions } from '../types';
+
+// The stamps anyone in a room can put on a photo
+export const REACTION_EMOJIS = ['❤️', '😂', '😮', '🔥', '👏', '😢'];
+
+export const groupReactions = (rows: { emoji: string; user_id: string }[]): PhotoReactions =>
+  rows.reduce<PhotoReactions>((grouped, row) => {
+    (grouped[row.emoji] ??= []).push(row.user_id);
+    return grouped;
+  }, {});
+
+// The same reactions with one person's stamp added or taken off
+export const applyReaction = (reactions: PhotoReactions, userId: string, emoji: string, on: boolean): PhotoReactions => {
+  const others = (reactions[emoji] ?? []).filter(id => id !== userId);
+  const next = { ...reactions, [emoji]: on ? [...others, userId] : others };
+  if (next[emoji].length === 0) delete next[emoji];
+  return next;
+};
+
+export const countReactions = (reactions: PhotoReactions) =>
+  Object.values(reactions).reduce((total, userIds) => total + userIds.length, 0);
+
+export const fetchReactions = async (photoId: string): Promise<PhotoReactions> => {
+  const { data, error } = await supabase.from('photo_reactions').select('emoji, user_id').eq('photo_id', photoId);
+  if (error) throw error;
+  return groupReactions(data ?? []);
+};
+
+// Put our stamp on a photo, or take it off again
+export const setReaction = async (photoId: string, userId: string, emoji: string, on: boolean) => {
+  const { error } = on
+    ? await supabase.from('photo_reactions').upsert({ photo_id: photoId, user_id: userId, emoji }, { ignoreDuplicates: true })
+    : await supabase.from('photo_reactions').delete().eq('photo_id', photoId).eq('user_id', userId).eq('emoji', emoji);
+  if (error) throw error;
+};
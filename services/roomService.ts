@@ -0,0 +1,164 @@
+import { supabase } from './supabaseClient';
+import type { CaptionConfig } from './captionService';
+import { fetchDisplayNames } from './profileService';
+
+export type RoomVisibility = 'public' | 'private';
+
+export interface Room {
+  id: string;
+  ownerId: string;
+  title: string | null;
+  visibility: RoomVisibility;
+  captionConfig: CaptionConfig | null;
+  // New photos wait for a moderator before the rest of the room sees them
+  moderated: boolean;
+  // Most shots each guest may take in the room, across every pack they load; null for no limit
+  shotsPerGuest: number | null;
+}
+
+export interface RoomMember {
+  userId: string;
+  // From their profile; null until they've picked one
+  name: string | null;
+  joinedAt: number;
+  isModerator: boolean;
+}
+
+// 'missing' rooms can be created; 'code-required' rooms are private (or we were kicked)
+export type JoinResult =
+  | { status: 'joined'; room: Room }
+  | { status: 'missing' }
+  | { status: 'code-required' };
+
+export type RoomAccess = 'idle' | 'joining' | JoinResult['status'];
+
+const mapRoomRow = (row: any): Room => ({
+  id: row.id,
+  ownerId: row.owner_id,
+  title: row.title ?? null,
+  visibility: row.visibility ?? 'public',
+  captionConfig: row.caption_config ?? null,
+  moderated: row.moderated ?? false,
+  shotsPerGuest: row.shots_per_guest ?? null,
+});
+
+// Short, upper-case IDs without look-alike characters, so they fit the room input and read out loud
+const ROOM_ID_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const generateRoomId = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(6)), n => ROOM_ID_ALPHABET[n % ROOM_ID_ALPHABET.length]).join('');
+
+// Joining a room we're already in just returns it
+export const joinRoom = async (room: string, code?: string): Promise<JoinResult> => {
+  const { data, error } = await supabase.rpc('join_room', { p_room: room, p_code: code || null });
+  if (error) {
+    if (error.message.includes('Room not found')) return { status: 'missing' };
+    if (error.message.includes('Join code required')) return { status: 'code-required' };
+    throw error;
+  }
+  return { status: 'joined', room: mapRoomRow(data) };
+};
+
+// The creator owns the room and is added as its first member by the database
+export const createRoom = async (room: string, title: string, visibility: RoomVisibility): Promise<Room> => {
+  const { error } = await supabase.from('rooms').insert({ id: room, title: title || null, visibility });
+  if (error) throw error;
+
+  const result = await joinRoom(room);
+  if (result.status !== 'joined') throw new Error(`Could not join new room ${room}`);
+  return result.room;
+};
+
+export interface RoomChanges {
+  title?: string | null;
+  visibility?: RoomVisibility;
+  moderated?: boolean;
+  shotsPerGuest?: number | null;
+}
+
+// Owner only (enforced by the rooms update policy)
+export const updateRoom = async (room: string, { shotsPerGuest, ...changes }: RoomChanges) => {
+  const { error } = await supabase
+    .from('rooms')
+    .update(shotsPerGuest === undefined ? changes : { ...changes, shots_per_guest: shotsPerGuest })
+    .eq('id', room);
+  if (error) throw error;
+};
+
+// Owner only (enforced by the rooms update policy)
+export const updateRoomCaptionConfig = async (room: string, captionConfig: CaptionConfig) => {
+  const { error } = await supabase.from('rooms').update({ caption_config: captionConfig }).eq('id', room);
+  if (error) throw error;
+};
+
+export const fetchJoinCode = async (room: string): Promise<string | null> => {
+  const { data, error } = await supabase.from('room_join_codes').select('code').eq('room_id', room).maybeSingle();
+  if (error) throw error;
+  return data?.code ?? null;
+};
+
+// Owner only; invite links with the old code stop working
+export const rotateJoinCode = async (room: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('rotate_join_code', { p_room: room });
+  if (error) throw error;
+  return data as string;
+};
+
+export const fetchRoomMembers = async (room: string): Promise<RoomMember[]> => {
+  const { data, error } = await supabase
+    .from('room_members')
+    .select('user_id, joined_at, is_moderator')
+    .eq('room_id', room)
+    .is('kicked_at', null)
+    .order('joined_at', { ascending: true });
+  if (error) throw error;
+
+  const rows = data ?? [];
+  const names = await fetchDisplayNames(rows.map((m: any) => m.user_id as string));
+  return rows.map((m: any) => ({ userId: m.user_id, name: names[m.user_id] ?? null, joinedAt: new Date(m.joined_at).getTime(), isModerator: !!m.is_moderator }));
+};
+
+// Owner only; the member needs a fresh join code to come back
+export const kickMember = async (room: string, userId: string) => {
+  const { error } = await supabase.rpc('kick_member', { p_room: room, p_user: userId });
+  if (error) throw error;
+};
+
+// Owner only; moderators review photos held in the room
+export const setRoomModerator = async (room: string, userId: string, on: boolean) => {
+  const { error } = await supabase.rpc('set_room_moderator', { p_room: room, p_user: userId, p_on: on });
+  if (error) throw error;
+};
+
+// Invite links pre-fill the room (and its join code) through the URL, and can open one photo in the gallery
+export const buildInviteLink = (room: string, code?: string | null, photoId?: string) => {
+  const params = new URLSearchParams({ room });
+  if (code) params.set('code', code);
+  if (photoId) params.set('photo', photoId);
+  return `${window.location.origin}${window.location.pathname}?${params}`;
+};
+
+// A kiosk's QR code opens one photo with that photo's own token, instead of the room's join code
+export const buildPhotoLink = (room: string, photoId: string, shareToken: string) =>
+  `${window.location.origin}${window.location.pathname}?${new URLSearchParams({ room, photo: photoId, share: shareToken })}`;
+
+export const readInviteFromUrl = (): { room: string | null; code: string | null; photo: string | null; share: string | null } => {
+  const params = new URLSearchParams(window.location.search);
+  return { room: params.get('room'), code: params.get('code'), photo: params.get('photo'), share: params.get('share') };
+};
+
+const clearUrlParam = (name: string) => {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has(name)) return;
+  url.searchParams.delete(name);
+  window.history.replaceState(null, '', url);
+};
+
+// Keep the room in the address bar but don't leave the code lying around in history
+export const clearInviteCodeFromUrl = () => clearUrlParam('code');
+
+// A linked photo opens once; reloading shows the board
+export const clearPhotoFromUrl = () => {
+  clearUrlParam('photo');
+  clearUrlParam('share');
+};
@@ -1,4 +1,3 @@
-
 import { createClient } from '@supabase/supabase-js'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
@@ -8,4 +7,18 @@ if (!supabaseUrl || !supabaseKey) {
     console.warn('Missing Supabase environment variables. Please check your .env.local file.')
 }
 
-export const supabase = createClient(supabaseUrl || '', supabaseKey || '')
+// The live wall (/wall/:room?token=...) has no account: it stays signed out, and its
+// view-only token goes along on every request for the database and storage policies
+export const WALL_PATH = /\/wall\/([^/]+)\/?$/
+const wallToken = WALL_PATH.test(window.location.pathname) ? new URLSearchParams(window.location.search).get('token') : null
+
+// A photo link from a kiosk QR code (?photo=...&share=...) carries a view-only token for
+// that one photo, which goes along the same way; whoever opens it may still be signed in
+const photoToken = new URLSearchParams(window.location.search).get('share')
+
+export const supabase = createClient(supabaseUrl || '', supabaseKey || '', wallToken ? {
+    global: { headers: { 'x-wall-token': wallToken } },
+    auth: { persistSession: false, autoRefreshToken: false }
+} : photoToken ? {
+    global: { headers: { 'x-photo-token': photoToken } }
+} : undefined)
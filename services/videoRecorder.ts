@@ -0,0 +1,92 @@
+// Video clips are recorded from the viewfinder stream, with the microphone added only while recording
+
+export interface VideoSettings {
+  // Recording stops on its own after this many seconds
+  maxSeconds: number;
+  withAudio: boolean;
+}
+
+export const CLIP_LIMITS = [3, 10, 30];
+
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = { maxSeconds: 10, withAudio: false };
+
+// Shorter presses still give a clip long enough to trim
+export const MIN_CLIP_SECONDS = 1;
+
+const SETTINGS_KEY = 'retrocam:video-settings';
+
+export const loadVideoSettings = (): VideoSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (stored) return { ...DEFAULT_VIDEO_SETTINGS, ...JSON.parse(stored) };
+  } catch {
+    // Use defaults
+  }
+  return DEFAULT_VIDEO_SETTINGS;
+};
+
+export const saveVideoSettings = (settings: VideoSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// In order of preference; Safari only records MP4
+const MIME_CANDIDATES = {
+  withAudio: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4;codecs=avc1,mp4a', 'video/mp4'],
+  videoOnly: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4;codecs=avc1', 'video/mp4'],
+};
+
+// An empty string lets the browser pick its own default
+export const pickRecorderMimeType = (withAudio: boolean) =>
+  MIME_CANDIDATES[withAudio ? 'withAudio' : 'videoOnly'].find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+export interface RecordedClip {
+  blob: Blob;
+  // Measured while recording: recorded WebM files often report an infinite duration
+  duration: number;
+}
+
+export interface ClipRecording {
+  stop: () => Promise<RecordedClip>;
+}
+
+export const startClipRecording = async (videoStream: MediaStream, withAudio: boolean): Promise<ClipRecording> => {
+  // Without mic permission the clip is still recorded, silently
+  let audioStream: MediaStream | null = null;
+  if (withAudio) {
+    try {
+      audioStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      console.error("Microphone access denied:", error);
+    }
+  }
+
+  const stream = new MediaStream([...videoStream.getVideoTracks(), ...(audioStream?.getAudioTracks() ?? [])]);
+  const mimeType = pickRecorderMimeType(!!audioStream);
+  const recorder = new MediaRecorder(stream, {
+    ...(mimeType ? { mimeType } : {}),
+    videoBitsPerSecond: 2500000,
+    audioBitsPerSecond: 96000
+  });
+
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  const startedAt = performance.now();
+  const stopped = new Promise<RecordedClip>((resolve) => {
+    recorder.onstop = () => {
+      audioStream?.getTracks().forEach(track => track.stop());
+      const type = (recorder.mimeType || mimeType || 'video/webm').split(';')[0];
+      resolve({ blob: new Blob(chunks, { type }), duration: (performance.now() - startedAt) / 1000 });
+    };
+  });
+  recorder.start(1000);
+
+  return {
+    stop: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      return stopped;
+    }
+  };
+};
@@ -0,0 +1,52 @@
+import { supabase, WALL_PATH } from './supabaseClient';
+import { Photo } from '../types';
+import { mapPhotoRow, PHOTO_COLUMNS } from './photoService';
+
+// The most photos a wall shows at once; older ones make way for new ones
+export const WALL_MAX_PHOTOS = 36;
+
+// The room comes from the path exactly as it's stored (ids keep their case); a link without
+// a token still opens the wall, which says so
+export const readWallFromUrl = (): { room: string; token: string | null } | null => {
+  const match = window.location.pathname.match(WALL_PATH);
+  if (!match) return null;
+  return { room: decodeURIComponent(match[1]), token: new URLSearchParams(window.location.search).get('token') };
+};
+
+export const buildWallLink = (room: string, token: string) =>
+  new URL(`wall/${encodeURIComponent(room)}?${new URLSearchParams({ token })}`, `${window.location.origin}${window.location.pathname}`).toString();
+
+// Which room the wall's token opens, or null if it doesn't open any
+export const fetchWallRoom = async (): Promise<string | null> => {
+  const { data, error } = await supabase.rpc('wall_room');
+  if (error) throw error;
+  return data ?? null;
+};
+
+// Newest first; the policies only let a wall see published photos
+export const fetchWallPhotos = async (room: string): Promise<Photo[]> => {
+  const { data, error } = await supabase
+    .from('photos')
+    .select(PHOTO_COLUMNS)
+    .eq('room_id', room)
+    .eq('status', 'published')
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false })
+    .limit(WALL_MAX_PHOTOS);
+  if (error) throw error;
+  return (data ?? []).map((p: any) => mapPhotoRow(p));
+};
+
+// Owner only
+export const fetchWallToken = async (room: string): Promise<string | null> => {
+  const { data, error } = await supabase.from('room_wall_tokens').select('token').eq('room_id', room).maybeSingle();
+  if (error) throw error;
+  return data?.token ?? null;
+};
+
+// Owner only; walls opened with the old link go blank
+export const rotateWallToken = async (room: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('rotate_wall_token', { p_room: room });
+  if (error) throw error;
+  return data as string;
+};
@@ -22,3 +22,981 @@ alter table photos enable row level security;
 create policy "Anyone can view photos" on photos for select using (true);
 create policy "Authenticated users can insert photos" on photos for insert with check (auth.role() = 'authenticated');
 create policy "Users can update their own photos" on photos for update using (auth.uid() = user_id);
+
+-- Layout sync: cards can be moved by anyone in the room.
+-- moved_at is the client timestamp of the move and resolves concurrent drags (last writer wins).
+alter table photos add column if not exists moved_at timestamp with time zone;
+
+create or replace function move_photo(
+  p_id uuid,
+  p_x float,
+  p_y float,
+  p_rotation float,
+  p_z_index int,
+  p_moved_at timestamp with time zone
+) returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update photos
+  set x = p_x, y = p_y, rotation = p_rotation, z_index = p_z_index, moved_at = p_moved_at
+  where id = p_id
+    and auth.role() = 'authenticated'
+    and (moved_at is null or moved_at <= p_moved_at);
+$$;
+
+grant execute on function move_photo(uuid, float, float, float, int, timestamp with time zone) to authenticated;
+
+-- Media lives in Storage; rows only keep the object key and metadata.
+-- data_url is kept (nullable) for rows that haven't been migrated yet.
+alter table photos alter column data_url drop not null;
+alter table photos add column if not exists object_key text;
+alter table photos add column if not exists mime_type text;
+alter table photos add column if not exists byte_size int;
+alter table photos add column if not exists width int;
+alter table photos add column if not exists height int;
+
+insert into storage.buckets (id, name, public) values ('photos', 'photos', false) on conflict (id) do nothing;
+
+create policy "Anyone can view photo media" on storage.objects for select using (bucket_id = 'photos');
+create policy "Authenticated users can upload photo media" on storage.objects for insert with check (bucket_id = 'photos' and auth.role() = 'authenticated');
+create policy "Users can replace their own photo media" on storage.objects for update using (bucket_id = 'photos' and auth.uid() = owner);
+
+-- Film stock the photo was shot on (see services/filmFilters.ts)
+alter table photos add column if not exists filter_id text;
+
+-- Rooms: the first signed-in user to join a room owns it
+create table if not exists rooms (
+  id text primary key,
+  owner_id uuid references auth.users not null default auth.uid(),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table rooms enable row level security;
+
+create policy "Anyone can view rooms" on rooms for select using (true);
+create policy "Authenticated users can claim rooms" on rooms for insert with check (auth.uid() = owner_id);
+
+-- Deleting: photos go to the trash (deleted_at) first and can be restored or deleted for good
+alter table photos add column if not exists deleted_at timestamp with time zone;
+
+create policy "Users can delete their own photos" on photos for delete using (auth.uid() = user_id);
+create policy "Users can delete their own photo media" on storage.objects for delete using (bucket_id = 'photos' and auth.uid() = owner);
+
+-- Room owners can move every photo in their room to the trash
+create or replace function clear_room(p_room text) returns setof uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from rooms where id = p_room and owner_id = auth.uid()) then
+    raise exception 'Only the room owner can clear the room';
+  end if;
+
+  return query
+    update photos set deleted_at = now()
+    where room_id = p_room and deleted_at is null
+    returning id;
+end;
+$$;
+
+-- Restore from the trash: photo owners, or the owner of the room the photo is in
+create or replace function restore_photos(p_ids uuid[]) returns setof uuid
+language sql
+security definer
+set search_path = public
+as $$
+  update photos p set deleted_at = null
+  where p.id = any(p_ids)
+    and (p.user_id = auth.uid() or exists (select 1 from rooms r where r.id = p.room_id and r.owner_id = auth.uid()))
+  returning p.id;
+$$;
+
+-- Delete from the trash for good: same people as restoring. Returns the media key so the
+-- caller can remove the file, or raises if the photo isn't theirs to delete.
+create or replace function delete_photo_forever(p_id uuid) returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_key text;
+begin
+  delete from photos p
+  where p.id = p_id
+    and p.deleted_at is not null
+    and (p.user_id = auth.uid() or exists (select 1 from rooms r where r.id = p.room_id and r.owner_id = auth.uid()))
+  returning p.object_key into v_key;
+
+  if not found then
+    raise exception 'Photo not found in your trash';
+  end if;
+
+  return v_key;
+end;
+$$;
+
+create policy "Room owners can delete their room's photo media" on storage.objects for delete
+  using (bucket_id = 'photos' and exists (select 1 from rooms r where r.id = (storage.foldername(name))[1] and r.owner_id = auth.uid()));
+
+grant execute on function clear_room(text) to authenticated;
+grant execute on function restore_photos(uuid[]) to authenticated;
+grant execute on function delete_photo_forever(uuid) to authenticated;
+
+-- Notes written on the back of a photo; only the owner can edit them (update policy above)
+alter table photos add column if not exists back_note text;
+
+-- Film packs: each pack type has its own shot count and frame (mirrors services/filmPacks.ts)
+create table if not exists film_packs (
+  id text primary key,
+  name text not null,
+  shots int not null,
+  aspect text not null default 'square',
+  default_filter text,
+  border_color text not null default '#ffffff'
+);
+
+insert into film_packs (id, name, shots, aspect, default_filter, border_color) values
+  ('classic', 'Classic', 8, 'square', 'polaroid-600', '#ffffff'),
+  ('black-frame', 'Black Frame', 8, 'square', 'bw', '#111111'),
+  ('wide', 'Wide', 10, 'wide', 'none', '#ffffff'),
+  ('mini', 'Mini', 10, 'mini', 'cross-process', '#f5e6c8'),
+  ('expired', 'Expired', 8, 'square', 'expired', '#fdf6e3')
+on conflict (id) do update set
+  name = excluded.name, shots = excluded.shots, aspect = excluded.aspect,
+  default_filter = excluded.default_filter, border_color = excluded.border_color;
+
+alter table film_packs enable row level security;
+create policy "Anyone can view film packs" on film_packs for select using (true);
+
+-- Packs each user owns. Only changed through the functions below.
+create table if not exists film_inventory (
+  user_id uuid references auth.users not null default auth.uid(),
+  pack_id text references film_packs not null,
+  quantity int not null default 0 check (quantity >= 0),
+  primary key (user_id, pack_id)
+);
+
+alter table film_inventory enable row level security;
+create policy "Users can view their own film" on film_inventory for select using (auth.uid() = user_id);
+
+-- Shots left on the loaded roll, per user and room. Only changed through the functions below.
+create table if not exists shot_budgets (
+  room_id text not null,
+  user_id uuid references auth.users not null default auth.uid(),
+  pack_id text references film_packs,
+  shots_left int not null default 0 check (shots_left >= 0),
+  shots_taken int not null default 0,
+  primary key (room_id, user_id)
+);
+
+alter table shot_budgets enable row level security;
+create policy "Users can view their own shot budget" on shot_budgets for select using (auth.uid() = user_id);
+
+-- Optional cap on how many shots each guest may take in a room, set by the owner in room settings
+alter table rooms add column if not exists shots_per_guest int check (shots_per_guest > 0);
+alter table photos add column if not exists aspect text not null default 'square';
+alter table photos add column if not exists border_color text;
+
+-- Everyone starts with a box of film, and it's topped back up to that once a day, so an
+-- account that has shot in a few rooms isn't out of film for good
+alter table film_inventory add column if not exists restocked_at timestamp with time zone not null default now();
+
+create or replace function restock_film() returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into film_inventory (user_id, pack_id, quantity)
+  select auth.uid(), id, case when id = 'classic' then 5 else 1 end from film_packs
+  on conflict (user_id, pack_id) do update
+    set quantity = greatest(film_inventory.quantity, excluded.quantity), restocked_at = now()
+    where film_inventory.restocked_at < now() - interval '1 day';
+$$;
+
+create or replace function ensure_film_inventory() returns setof film_inventory
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform restock_film();
+  return query select * from film_inventory where user_id = auth.uid();
+end;
+$$;
+
+create or replace function load_film_pack(p_room text, p_pack text) returns shot_budgets
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_shots int;
+  v_cap int;
+  v_taken int;
+  v_budget shot_budgets;
+begin
+  select shots into v_shots from film_packs where id = p_pack;
+  if not found then
+    raise exception 'Unknown film pack %', p_pack;
+  end if;
+
+  insert into shot_budgets (room_id, user_id) values (p_room, auth.uid()) on conflict do nothing;
+  select shots_taken into v_taken from shot_budgets where room_id = p_room and user_id = auth.uid();
+  select shots_per_guest into v_cap from rooms where id = p_room;
+
+  if v_cap is not null then
+    v_shots := least(v_shots, greatest(v_cap - v_taken, 0));
+    if v_shots = 0 then
+      raise exception 'Shot limit reached for this room';
+    end if;
+  end if;
+
+  perform restock_film();
+  update film_inventory set quantity = quantity - 1
+  where user_id = auth.uid() and pack_id = p_pack and quantity > 0;
+  if not found then
+    raise exception 'No % packs left', p_pack;
+  end if;
+
+  update shot_budgets set pack_id = p_pack, shots_left = v_shots
+  where room_id = p_room and user_id = auth.uid()
+  returning * into v_budget;
+
+  return v_budget;
+end;
+$$;
+
+create or replace function take_shot(p_room text) returns shot_budgets
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_budget shot_budgets;
+begin
+  update shot_budgets b set shots_left = shots_left - 1, shots_taken = shots_taken + 1
+  where b.room_id = p_room and b.user_id = auth.uid() and b.shots_left > 0
+    and not exists (
+      select 1 from rooms r where r.id = p_room and r.shots_per_guest is not null and b.shots_taken >= r.shots_per_guest
+    )
+  returning * into v_budget;
+
+  if not found then
+    raise exception 'No shots left';
+  end if;
+
+  return v_budget;
+end;
+$$;
+
+grant execute on function ensure_film_inventory() to authenticated;
+grant execute on function load_film_pack(text, text) to authenticated;
+grant execute on function take_shot(text) to authenticated;
+
+-- Per-room caption setup: provider, model, temperature and prompt template (see services/captionService.ts)
+alter table rooms add column if not exists caption_config jsonb;
+
+create policy "Owners can update their rooms" on rooms for update using (auth.uid() = owner_id);
+
+-- Room management: titles, public or private visibility, members and join codes.
+-- Rooms are created explicitly now, so photos no longer fall back to a shared room.
+alter table photos alter column room_id drop default;
+alter table rooms add column if not exists title text;
+alter table rooms add column if not exists visibility text not null default 'public' check (visibility in ('public', 'private'));
+
+create table if not exists room_members (
+  room_id text references rooms on delete cascade not null,
+  user_id uuid references auth.users not null default auth.uid(),
+  joined_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  -- Kicked members keep their row so they need a fresh join code to come back, even to a public room
+  kicked_at timestamp with time zone,
+  primary key (room_id, user_id)
+);
+
+-- Members used to be listed by email, which every other member could read; names come from profiles now
+alter table room_members drop column if exists email;
+
+-- Kept apart from rooms so only members can read the code
+create table if not exists room_join_codes (
+  room_id text primary key references rooms on delete cascade,
+  code text not null unique
+);
+
+create or replace function new_join_code() returns text
+language sql
+as $$
+  select upper(substr(md5(gen_random_uuid()::text), 1, 8));
+$$;
+
+create or replace function is_room_member(p_room text) returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from room_members where room_id = p_room and user_id = auth.uid() and kicked_at is null);
+$$;
+
+-- A new room's owner is its first member, and the room gets a join code straight away
+create or replace function setup_new_room() returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into room_members (room_id, user_id) values (new.id, new.owner_id) on conflict do nothing;
+  insert into room_join_codes (room_id, code) values (new.id, new_join_code()) on conflict do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_room_created on rooms;
+create trigger on_room_created after insert on rooms for each row execute function setup_new_room();
+
+-- Existing rooms: the first photographer owns any room that was never claimed, and everyone who posted is a member
+insert into rooms (id, owner_id)
+  select distinct on (room_id) room_id, user_id from photos where user_id is not null order by room_id, created_at
+  on conflict do nothing;
+insert into room_members (room_id, user_id) select id, owner_id from rooms on conflict do nothing;
+insert into room_members (room_id, user_id) select distinct room_id, user_id from photos where user_id is not null on conflict do nothing;
+insert into room_join_codes (room_id, code) select id, new_join_code() from rooms on conflict do nothing;
+
+alter table room_members enable row level security;
+create policy "Members can view their room's members" on room_members for select using (is_room_member(room_id));
+
+alter table room_join_codes enable row level security;
+create policy "Members can view their room's join code" on room_join_codes for select using (is_room_member(room_id));
+
+-- The room's realtime channel (`room:<id>`) is private: only members can listen or send.
+-- Notes are typed and cursors moved over it, and kicks are announced on it.
+create policy "Members can receive their room's broadcasts" on realtime.messages for select to authenticated
+  using (starts_with(realtime.topic(), 'room:') and is_room_member(substr(realtime.topic(), 6)));
+create policy "Members can send on their room's channel" on realtime.messages for insert to authenticated
+  with check (starts_with(realtime.topic(), 'room:') and is_room_member(substr(realtime.topic(), 6)));
+
+drop policy if exists "Anyone can view rooms" on rooms;
+create policy "Anyone can view public rooms, members can view private ones" on rooms for select using (visibility = 'public' or is_room_member(id));
+
+-- Photos and their media are only visible to (and added by) members of the room
+drop policy if exists "Anyone can view photos" on photos;
+drop policy if exists "Authenticated users can insert photos" on photos;
+create policy "Members can view room photos" on photos for select using (is_room_member(room_id));
+create policy "Members can add photos to their rooms" on photos for insert with check (auth.uid() = user_id and is_room_member(room_id));
+
+drop policy if exists "Anyone can view photo media" on storage.objects;
+drop policy if exists "Authenticated users can upload photo media" on storage.objects;
+create policy "Members can view photo media" on storage.objects for select using (bucket_id = 'photos' and is_room_member((storage.foldername(name))[1]));
+create policy "Members can upload photo media" on storage.objects for insert with check (bucket_id = 'photos' and is_room_member((storage.foldername(name))[1]));
+
+create or replace function move_photo(
+  p_id uuid,
+  p_x float,
+  p_y float,
+  p_rotation float,
+  p_z_index int,
+  p_moved_at timestamp with time zone
+) returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update photos
+  set x = p_x, y = p_y, rotation = p_rotation, z_index = p_z_index, moved_at = p_moved_at
+  where id = p_id
+    and is_room_member(room_id)
+    and (moved_at is null or moved_at <= p_moved_at);
+$$;
+
+-- Public rooms can be joined by anyone; private rooms (and kicked members) need the current join code
+create or replace function join_room(p_room text, p_code text default null) returns rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_room rooms;
+  v_member room_members;
+  v_has_code boolean;
+begin
+  select * into v_room from rooms where id = p_room;
+  if not found then
+    raise exception 'Room not found';
+  end if;
+
+  select * into v_member from room_members where room_id = p_room and user_id = auth.uid();
+  if found and v_member.kicked_at is null then
+    return v_room;
+  end if;
+
+  v_has_code := p_code is not null and exists (select 1 from room_join_codes where room_id = p_room and code = upper(p_code));
+  if not v_has_code and (v_room.visibility = 'private' or v_member.kicked_at is not null) then
+    raise exception 'Join code required';
+  end if;
+
+  insert into room_members (room_id, user_id) values (p_room, auth.uid())
+  on conflict (room_id, user_id) do update set kicked_at = null, joined_at = now();
+
+  return v_room;
+end;
+$$;
+
+create or replace function rotate_join_code(p_room text) returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code text;
+begin
+  if not exists (select 1 from rooms where id = p_room and owner_id = auth.uid()) then
+    raise exception 'Only the room owner can rotate the join code';
+  end if;
+
+  update room_join_codes set code = new_join_code() where room_id = p_room returning code into v_code;
+  return v_code;
+end;
+$$;
+
+create or replace function kick_member(p_room text, p_user uuid) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from rooms where id = p_room and owner_id = auth.uid()) then
+    raise exception 'Only the room owner can kick members';
+  end if;
+  if p_user = auth.uid() then
+    raise exception 'Owners cannot kick themselves';
+  end if;
+
+  update room_members set kicked_at = now() where room_id = p_room and user_id = p_user;
+end;
+$$;
+
+grant execute on function join_room(text, text) to authenticated;
+grant execute on function rotate_join_code(text) to authenticated;
+grant execute on function kick_member(text, uuid) to authenticated;
+
+-- Profiles: the display name shown on cursors and in the room roster
+create table if not exists profiles (
+  id uuid primary key references auth.users on delete cascade,
+  display_name text check (char_length(display_name) <= 32),
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table profiles enable row level security;
+create policy "Signed-in users can view profiles" on profiles for select using (auth.role() = 'authenticated');
+create policy "Users can create their own profile" on profiles for insert with check (auth.uid() = id);
+create policy "Users can update their own profile" on profiles for update using (auth.uid() = id);
+
+-- Sign-up passes the display name as user metadata; copy it into the profile
+create or replace function create_profile_for_new_user() returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into profiles (id, display_name) values (new.id, new.raw_user_meta_data ->> 'display_name') on conflict do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created after insert on auth.users for each row execute function create_profile_for_new_user();
+
+-- Board coordinates: x and y are units on a fixed 4000 x 2500 board (services/boardCoords.ts).
+-- Older rows are labelled once with the format they were saved in: 1 = fraction of the viewport, 0 = raw pixels.
+alter table photos add column if not exists coord_version smallint;
+update photos set coord_version = case when x between 0 and 1 and y between 0 and 1 then 1 else 0 end where coord_version is null;
+alter table photos alter column coord_version set default 2;
+alter table photos alter column coord_version set not null;
+
+create or replace function move_photo(
+  p_id uuid,
+  p_x float,
+  p_y float,
+  p_rotation float,
+  p_z_index int,
+  p_moved_at timestamp with time zone
+) returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update photos
+  set x = p_x, y = p_y, coord_version = 2, rotation = p_rotation, z_index = p_z_index, moved_at = p_moved_at
+  where id = p_id
+    and is_room_member(room_id)
+    and (moved_at is null or moved_at <= p_moved_at);
+$$;
+
+-- Boards are loaded by region and paged by (created_at, id), so every row is moved into board units
+-- (the same placement services/boardCoords.ts uses for older formats) and both orders are indexed.
+update photos set x = 1400 + x * 1200, y = 800 + y * 900, coord_version = 2 where coord_version = 1;
+update photos set x = 1400 + x, y = 800 + y, coord_version = 2 where coord_version = 0;
+
+create index if not exists photos_room_page on photos (room_id, created_at, id) where deleted_at is null;
+create index if not exists photos_room_position on photos (room_id, x, y) where deleted_at is null;
+
+-- The gallery pages newest first, optionally by one author; photos_room_page serves the
+-- unfiltered order backwards, this one covers filtering by author.
+create index if not exists photos_room_author_page on photos (room_id, user_id, created_at, id) where deleted_at is null;
+
+-- Video clips are trimmed without re-encoding: playback loops between clip_start and clip_end
+-- (seconds into the recorded file), and poster_time is the frame used for thumbnails and exports.
+alter table photos add column if not exists clip_start real;
+alter table photos add column if not exists clip_end real;
+alter table photos add column if not exists poster_time real;
+
+-- Clips from a mirrored selfie camera are stored as recorded and flipped on playback
+alter table photos add column if not exists mirrored boolean not null default false;
+
+-- Burst and booth presses use several exposures at once, so take_shot takes a count
+-- and spends all of it or none.
+drop function if exists take_shot(text);
+
+create or replace function take_shot(p_room text, p_count int default 1) returns shot_budgets
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_budget shot_budgets;
+begin
+  if p_count < 1 then
+    raise exception 'Invalid shot count';
+  end if;
+
+  update shot_budgets b set shots_left = shots_left - p_count, shots_taken = shots_taken + p_count
+  where b.room_id = p_room and b.user_id = auth.uid() and b.shots_left >= p_count
+    and not exists (
+      select 1 from rooms r where r.id = p_room and r.shots_per_guest is not null and b.shots_taken + p_count > r.shots_per_guest
+    )
+  returning * into v_budget;
+
+  if not found then
+    raise exception 'No shots left';
+  end if;
+
+  return v_budget;
+end;
+$$;
+
+grant execute on function take_shot(text, int) to authenticated;
+
+-- Doodles, stickers and text labels drawn over a photo, kept as vector layers so the
+-- original capture stays untouched. Positions are fractions of the image box.
+-- The uploader's existing update policy covers editing them.
+alter table photos add column if not exists layers jsonb;
+
+-- Reactions and comments from room members. room_id is copied from the photo on insert,
+-- so the policies don't need a join and nobody can point a row at another room.
+create table if not exists photo_reactions (
+  photo_id uuid references photos on delete cascade not null,
+  room_id text not null,
+  user_id uuid references auth.users not null default auth.uid(),
+  emoji text not null check (char_length(emoji) <= 16),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  primary key (photo_id, user_id, emoji)
+);
+
+-- Replies point at the comment they answer, and go when it does
+create table if not exists photo_comments (
+  id uuid default gen_random_uuid() primary key,
+  photo_id uuid references photos on delete cascade not null,
+  room_id text not null,
+  user_id uuid references auth.users not null default auth.uid(),
+  parent_id uuid references photo_comments on delete cascade,
+  body text not null check (char_length(body) between 1 and 500),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists photo_comments_photo on photo_comments (photo_id, created_at);
+
+create or replace function set_room_from_photo() returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select room_id into new.room_id from photos where id = new.photo_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_photo_reaction_insert on photo_reactions;
+create trigger on_photo_reaction_insert before insert on photo_reactions for each row execute function set_room_from_photo();
+drop trigger if exists on_photo_comment_insert on photo_comments;
+create trigger on_photo_comment_insert before insert on photo_comments for each row execute function set_room_from_photo();
+
+alter table photo_reactions enable row level security;
+create policy "Members can view reactions in their rooms" on photo_reactions for select using (is_room_member(room_id));
+create policy "Members can react in their rooms" on photo_reactions for insert with check (auth.uid() = user_id and is_room_member(room_id));
+create policy "Users can take back their own reactions" on photo_reactions for delete using (auth.uid() = user_id);
+
+alter table photo_comments enable row level security;
+create policy "Members can view comments in their rooms" on photo_comments for select using (is_room_member(room_id));
+create policy "Members can comment in their rooms" on photo_comments for insert with check (
+  auth.uid() = user_id and is_room_member(room_id)
+  and (parent_id is null or exists (select 1 from photo_comments parent where parent.id = parent_id and parent.photo_id = photo_comments.photo_id))
+);
+create policy "Users can delete their own comments" on photo_comments for delete using (auth.uid() = user_id);
+
+-- Members hear new reactions and comments as database changes, checked by the policies above.
+-- Deletes can't be filtered by room, so the app announces them on the private room channel.
+alter publication supabase_realtime add table photo_reactions, photo_comments;
+
+-- A running total of reactions on each photo, so the gallery can page by it
+alter table photos add column if not exists reaction_count int not null default 0;
+update photos set reaction_count = (select count(*) from photo_reactions r where r.photo_id = photos.id);
+
+create or replace function count_photo_reactions() returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update photos set reaction_count = reaction_count + 1 where id = new.photo_id;
+  else
+    update photos set reaction_count = greatest(reaction_count - 1, 0) where id = old.photo_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists on_photo_reaction_counted on photo_reactions;
+create trigger on_photo_reaction_counted after insert or delete on photo_reactions for each row execute function count_photo_reactions();
+
+create index if not exists photos_room_reactions_page on photos (room_id, reaction_count, created_at, id) where deleted_at is null;
+
+-- Uploaders edit their own photos in place: the note, decorations, the trash and the media
+-- move off data_url. A photo stays in its room, and everything else (position, review,
+-- reaction count) only changes through the functions and triggers above.
+drop policy if exists "Users can update their own photos" on photos;
+create policy "Users can update their own photos" on photos for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id and is_room_member(room_id));
+
+revoke update on photos from anon, authenticated;
+grant update (back_note, layers, deleted_at, object_key, mime_type, byte_size, width, height, data_url) on photos to authenticated;
+
+-- Moderation: a room can hold new photos for review. Pending and rejected photos are only
+-- visible to their uploader and the room's moderators (the owner, and members the owner picks).
+-- Captures the pre-screen flagged are held in any room, with its reasons in `flags`;
+-- captions, notes and labels are screened again by the database (see screen_text below).
+alter table rooms add column if not exists moderated boolean not null default false;
+alter table room_members add column if not exists is_moderator boolean not null default false;
+alter table photos add column if not exists status text not null default 'published' check (status in ('pending', 'published', 'rejected'));
+alter table photos add column if not exists flags text[] not null default '{}';
+alter table photos add column if not exists reviewed_by uuid references auth.users;
+alter table photos add column if not exists reviewed_at timestamp with time zone;
+
+create or replace function is_room_moderator(p_room text) returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from rooms where id = p_room and owner_id = auth.uid())
+    or exists (select 1 from room_members where room_id = p_room and user_id = auth.uid() and is_moderator and kicked_at is null);
+$$;
+
+drop policy if exists "Members can view room photos" on photos;
+create policy "Members can view published photos, uploaders and moderators the rest" on photos for select using (
+  is_room_member(room_id) and (status = 'published' or auth.uid() = user_id or is_room_moderator(room_id))
+);
+
+-- Media follows its row: held, rejected and trashed photos' files stay with the uploader and
+-- moderators. The trash still shows its photos to whoever can restore them.
+drop policy if exists "Members can view photo media" on storage.objects;
+create policy "Members can view the media of photos they can see" on storage.objects for select using (
+  bucket_id = 'photos' and exists (
+    select 1 from photos p
+    where p.object_key = name and is_room_member(p.room_id)
+      and (
+        (p.deleted_at is null and (p.status = 'published' or p.user_id = auth.uid() or is_room_moderator(p.room_id)))
+        or (p.deleted_at is not null and (p.user_id = auth.uid() or exists (select 1 from rooms r where r.id = p.room_id and r.owner_id = auth.uid())))
+      )
+  )
+);
+
+-- The caption rules of the app's local pre-screen, run where the uploader can't skip them.
+-- The client's own flags (e.g. a blank frame) can only add to these, never clear them.
+-- `p_what` names what was read ('Caption', 'Note', 'Label') in the reasons it gives.
+create or replace function screen_text(p_text text, p_what text) returns text[]
+language sql
+immutable
+as $$
+  select array_remove(array[
+    case when p_text ~* '\m(fuck|shit|bitch|cunt|dick|pussy|nazi|slut|whore|fag|retard)' then p_what || ': strong language' end,
+    case when p_text ~* '\m(https?://|www\.)\S+|\m\S+\.(com|net|org|io|ly|gg)\M' then p_what || ': link' end,
+    case when p_text ~ '\S+@\S+\.\S+|\+?\d[\d\s().-]{7,}\d' then p_what || ': contact details' end
+  ], null);
+$$;
+
+-- The words of a photo's text labels (see PhotoLayer in types.ts)
+create or replace function layer_text(p_layers jsonb) returns text
+language sql
+immutable
+as $$
+  select coalesce(string_agg(l ->> 'text', ' '), '')
+  from jsonb_array_elements(case when jsonb_typeof(p_layers) = 'array' then p_layers else '[]'::jsonb end) l
+  where l ->> 'type' = 'text';
+$$;
+
+-- The status is decided here, never by the uploader: on insert from the room and the flags,
+-- and afterwards only a moderator can change it (or the flags)
+create or replace function hold_photo_for_review() returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.flags := array(select distinct unnest(coalesce(new.flags, '{}') || screen_text(coalesce(new.caption, ''), 'Caption')));
+  new.status := case
+    when cardinality(new.flags) > 0 or exists (select 1 from rooms where id = new.room_id and moderated) then 'pending'
+    else 'published'
+  end;
+  new.reviewed_by := null;
+  new.reviewed_at := null;
+  return new;
+end;
+$$;
+
+create or replace function guard_photo_review() returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not is_room_moderator(new.room_id) then
+    new.status := old.status;
+    new.flags := old.flags;
+    new.reviewed_by := old.reviewed_by;
+    new.reviewed_at := old.reviewed_at;
+
+    -- Writing or drawing on a photo after it was screened screens it again, and sends it back
+    -- to the queue in a moderated room (or anywhere, if the new words are flagged)
+    if new.back_note is distinct from old.back_note or new.layers is distinct from old.layers then
+      new.flags := array(select distinct unnest(old.flags
+        || screen_text(coalesce(new.back_note, ''), 'Note')
+        || screen_text(layer_text(new.layers), 'Label')));
+      if cardinality(new.flags) > cardinality(old.flags) or exists (select 1 from rooms where id = new.room_id and moderated) then
+        new.status := 'pending';
+        new.reviewed_by := null;
+        new.reviewed_at := null;
+      end if;
+    end if;
+  end if;
+
+  -- Media is set once (on insert, or when a legacy row is migrated), so a reviewed photo
+  -- can't be swapped for another file
+  if old.object_key is not null then
+    new.object_key := old.object_key;
+    new.mime_type := old.mime_type;
+    new.byte_size := old.byte_size;
+    new.width := old.width;
+    new.height := old.height;
+  end if;
+  return new;
+end;
+$$;
+
+-- Nor can the file itself be replaced: it can only be uploaded before a photo points at it,
+-- and only removed once no photo does (deleting for good removes the row first)
+drop policy if exists "Users can replace their own photo media" on storage.objects;
+drop policy if exists "Members can upload photo media" on storage.objects;
+create policy "Members can upload media for new photos" on storage.objects for insert with check (
+  bucket_id = 'photos' and is_room_member((storage.foldername(name))[1])
+  and not exists (select 1 from photos p where p.object_key = name)
+);
+drop policy if exists "Users can delete their own photo media" on storage.objects;
+create policy "Users can delete their own photo media" on storage.objects for delete using (
+  bucket_id = 'photos' and auth.uid() = owner
+  and not exists (select 1 from photos p where p.object_key = name)
+);
+drop policy if exists "Room owners can delete their room's photo media" on storage.objects;
+create policy "Room owners can delete their room's photo media" on storage.objects for delete using (
+  bucket_id = 'photos' and exists (select 1 from rooms r where r.id = (storage.foldername(name))[1] and r.owner_id = auth.uid())
+  and not exists (select 1 from photos p where p.object_key = name)
+);
+
+drop trigger if exists on_photo_insert_review on photos;
+create trigger on_photo_insert_review before insert on photos for each row execute function hold_photo_for_review();
+drop trigger if exists on_photo_update_review on photos;
+create trigger on_photo_update_review before update on photos for each row execute function guard_photo_review();
+
+create or replace function moderate_photo(p_id uuid, p_approve boolean) returns photos
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_photo photos;
+begin
+  update photos
+  set status = case when p_approve then 'published' else 'rejected' end,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  where id = p_id and is_room_moderator(room_id)
+  returning * into v_photo;
+
+  if not found then
+    raise exception 'Only moderators can review photos';
+  end if;
+  return v_photo;
+end;
+$$;
+
+create or replace function set_room_moderator(p_room text, p_user uuid, p_on boolean) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from rooms where id = p_room and owner_id = auth.uid()) then
+    raise exception 'Only the room owner can pick moderators';
+  end if;
+
+  update room_members set is_moderator = p_on where room_id = p_room and user_id = p_user;
+end;
+$$;
+
+grant execute on function is_room_moderator(text) to authenticated;
+grant execute on function moderate_photo(uuid, boolean) to authenticated;
+grant execute on function set_room_moderator(text, uuid, boolean) to authenticated;
+
+create index if not exists photos_room_pending on photos (room_id, created_at) where status = 'pending' and deleted_at is null;
+
+-- Live wall: a read-only view of a room for a projector, opened with a view-only token
+-- instead of an account. The wall sends its token as the x-wall-token request header,
+-- and it stands in for membership when reading published photos and their media.
+create table if not exists room_wall_tokens (
+  room_id text primary key references rooms on delete cascade,
+  token text not null unique,
+  created_at timestamptz default now()
+);
+
+alter table room_wall_tokens enable row level security;
+create policy "Owners can view their room's wall token" on room_wall_tokens for select
+  using (exists (select 1 from rooms where id = room_id and owner_id = auth.uid()));
+
+-- The room the request's wall token opens, if any
+create or replace function wall_room() returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select room_id from room_wall_tokens
+  where token = nullif(current_setting('request.headers', true)::json ->> 'x-wall-token', '');
+$$;
+
+create policy "Walls can view their room" on rooms for select using (id = wall_room());
+create policy "Walls can view published photos" on photos for select
+  using (room_id = wall_room() and status = 'published' and deleted_at is null);
+-- Only the media of photos the wall shows: not pending, rejected or trashed ones
+create policy "Walls can view photo media" on storage.objects for select
+  using (bucket_id = 'photos' and exists (
+    select 1 from photos p
+    where p.object_key = name and p.room_id = wall_room() and p.status = 'published' and p.deleted_at is null
+  ));
+
+-- Owner only; makes the room's first wall link, or a new one that retires the old
+create or replace function rotate_wall_token(p_room text) returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_token text;
+begin
+  if not exists (select 1 from rooms where id = p_room and owner_id = auth.uid()) then
+    raise exception 'Only the room owner can make a wall link';
+  end if;
+
+  insert into room_wall_tokens (room_id, token) values (p_room, md5(gen_random_uuid()::text) || md5(gen_random_uuid()::text))
+  on conflict (room_id) do update set token = excluded.token, created_at = now()
+  returning token into v_token;
+  return v_token;
+end;
+$$;
+
+grant execute on function wall_room() to anon, authenticated;
+grant execute on function rotate_wall_token(text) to authenticated;
+
+-- Kiosk QR codes: every photo has its own view-only token, so a guest who scans a print
+-- sees that one photo and nothing else in the room. The link's token goes along as the
+-- x-photo-token request header. The kiosk picks the token when it prints, before the row exists.
+alter table photos add column if not exists share_token text not null unique
+  default md5(gen_random_uuid()::text) || md5(gen_random_uuid()::text)
+  check (char_length(share_token) >= 32);
+
+create or replace function shared_photo_token() returns text
+language sql
+stable
+as $$
+  select nullif(current_setting('request.headers', true)::json ->> 'x-photo-token', '');
+$$;
+
+create policy "Photo links can view their photo" on photos for select
+  using (share_token = shared_photo_token() and status = 'published' and deleted_at is null);
+create policy "Photo links can view their photo's media" on storage.objects for select
+  using (bucket_id = 'photos' and exists (
+    select 1 from photos p
+    where p.object_key = name and p.share_token = shared_photo_token() and p.status = 'published' and p.deleted_at is null
+  ));
+
+grant execute on function shared_photo_token() to anon, authenticated;
+
+-- Kiosk booths shoot every guest's photos on the host's account. A booth loads its film
+-- without spending packs, and each new guest starts the room's per-guest count afresh.
+-- Only the room's owner and moderators, who set booths up, can load one.
+create or replace function load_kiosk_film(p_room text, p_pack text, p_new_guest boolean) returns shot_budgets
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_shots int;
+  v_cap int;
+  v_taken int;
+  v_budget shot_budgets;
+begin
+  if not is_room_moderator(p_room) then
+    raise exception 'Only the room''s hosts can run a kiosk';
+  end if;
+
+  select shots into v_shots from film_packs where id = p_pack;
+  if not found then
+    raise exception 'Unknown film pack %', p_pack;
+  end if;
+
+  insert into shot_budgets (room_id, user_id) values (p_room, auth.uid()) on conflict do nothing;
+  if p_new_guest then
+    update shot_budgets set shots_taken = 0 where room_id = p_room and user_id = auth.uid();
+  end if;
+  select shots_taken into v_taken from shot_budgets where room_id = p_room and user_id = auth.uid();
+  select shots_per_guest into v_cap from rooms where id = p_room;
+
+  if v_cap is not null then
+    v_shots := least(v_shots, greatest(v_cap - v_taken, 0));
+    if v_shots = 0 then
+      raise exception 'Shot limit reached for this room';
+    end if;
+  end if;
+
+  update shot_budgets set pack_id = p_pack, shots_left = v_shots
+  where room_id = p_room and user_id = auth.uid()
+  returning * into v_budget;
+
+  return v_budget;
+end;
+$$;
+
+grant execute on function load_kiosk_film(text, text, boolean) to authenticated;
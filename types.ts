@@ -1,7 +1,44 @@
+// 'strip' is only used by photo-booth cards, never by a film pack
+export type FrameAspect = 'square' | 'wide' | 'mini' | 'strip';
+
+// Decorations drawn over the image. Positions and sizes are fractions of the image's
+// width (x, size) and height (y), so they land in the same place on any card or export.
+export type PhotoLayer =
+  | { id: string; type: 'doodle'; color: string; width: number; points: [number, number][] }
+  | { id: string; type: 'sticker'; emoji: string; x: number; y: number; size: number; rotation: number }
+  | { id: string; type: 'text'; text: string; x: number; y: number; size: number; color: string; rotation: number };
+
+export type PhotoStatus = 'pending' | 'published' | 'rejected';
+
+// Emoji -> ids of the people who reacted with it
+export type PhotoReactions = Record<string, string[]>;
+
+export interface PhotoComment {
+  id: string;
+  photoId: string;
+  userId: string;
+  authorName?: string;
+  // Replies point at the comment they answer
+  parentId?: string;
+  body: string;
+  createdAt: number;
+}
+
+// Everything people said about one photo, loaded when its card is flipped or opened
+export interface PhotoThread {
+  reactions: PhotoReactions;
+  comments: PhotoComment[];
+}
 
 export interface Photo {
   id: string;
+  // Inline URL for local captures; empty for stored photos until resolved from objectKey
   dataUrl: string;
+  objectKey?: string;
+  mimeType?: string;
+  byteSize?: number;
+  width?: number;
+  height?: number;
   timestamp: number;
   caption?: string;
   isDeveloping: boolean;
@@ -14,6 +51,30 @@ export interface Photo {
   zIndex: number;
   backNote?: string;
   mediaType?: 'photo' | 'video';
+  // Video trim and poster frame, in seconds into the recorded clip; the clip itself is never cut
+  clipStart?: number;
+  clipEnd?: number;
+  posterTime?: number;
+  // Video recorded from a mirrored selfie camera; flipped on playback
+  mirrored?: boolean;
+  // Drawn over the image, which itself is never changed
+  layers?: PhotoLayer[];
+  // Room members' emoji reactions; reactionCount is the server's running total, for sorting
+  reactions?: PhotoReactions;
+  reactionCount?: number;
+  commentCount?: number;
+  // Held for review photos are only seen by their uploader and the room's moderators.
+  // Signed-out photos have no status; flags are the pre-screen's reasons for holding one.
+  status?: PhotoStatus;
+  flags?: string[];
+  // View-only token for this one photo, put in a kiosk's QR code
+  shareToken?: string;
+  filterId?: string;
+  aspect?: FrameAspect;
+  borderColor?: string;
+  userId?: string;
+  movedAt?: number;
+  deletedAt?: number;
 }
 
 export interface CameraState {
@@ -23,3 +84,12 @@ export interface CameraState {
   isCapturing: boolean;
   isPoweredOn: boolean;
 }
+
+// Someone in the room right now, as tracked by realtime presence
+export interface Participant {
+  userId: string;
+  name: string;
+  color: string;
+  status: 'active' | 'idle';
+  onlineAt: number;
+}